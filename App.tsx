@@ -1,33 +1,83 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import * as THREE from 'three';
-import type { Piece, BoardState, Move } from './types';
-import { calculateValidMoves, initializeBoardState } from './lib/gameLogic';
+import type { Piece, Move, OrthodoxPieceType, Square, TimeControl, Variant } from './types';
+import { initialPosition, isGameOver, isPromotionMove, pendingDrawOffer, toPositionString } from './lib/gameLogic';
+import { Game } from './lib/game';
+import { ChessClock } from './lib/clock';
+import { exportGameRecord, importGameRecord } from './lib/gameRecord';
+import type { GameTags } from './lib/gameRecord';
+import { ANALYSIS_LIMITS, DIFFICULTY_LIMITS, engineSupports, shouldAcceptDraw } from './lib/engine';
+import type { Difficulty, PositionAnalysis } from './lib/engine';
+import { EngineClient } from './lib/engineClient';
+import { COMPUTER_PLAYERS } from './lib/computerPlayers';
+import type { ComputerPlayer } from './lib/computerPlayers';
+import { RelayClient } from './lib/relayClient';
+import type { RelaySession } from './lib/relayClient';
+import type { ClientMessage } from './lib/relayProtocol';
 import InfoPanel from './components/InfoPanel';
 import ThreeScene from './components/ThreeScene';
 import PromotionModal from './components/PromotionModal';
 import { GoogleGenAI, Type } from "@google/genai";
 import { loadAssets } from './lib/threeUtils';
 
+// The relay server from `npm run relay`, on the host serving the app unless
+// RELAY_URL is set.
+const RELAY_URL = process.env.RELAY_URL || `ws://${window.location.hostname}:8787`;
+
 const App: React.FC = () => {
-  const [boardState, setBoardState] = useState<BoardState>(() => initializeBoardState());
-  const [turn, setTurn] = useState<'white' | 'black'>('white');
+  const [game, setGame] = useState(() => new Game());
+  const [gameTags, setGameTags] = useState<GameTags>({});
+  const [, setRevision] = useState(0);
   const [selectedPiece, setSelectedPiece] = useState<Piece | null>(null);
   const [validMoves, setValidMoves] = useState<Move[]>([]);
-  const [capturedPieces, setCapturedPieces] = useState<{ white: Piece[], black: Piece[] }>({ white: [], black: [] });
-  const [gameStatus, setGameStatus] = useState('active');
   const [sidebarWidth, setSidebarWidth] = useState(350);
-  const [promotionData, setPromotionData] = useState<{ piece: Piece, x: number, y: number, z: number } | null>(null);
+  const [promotionData, setPromotionData] = useState<{ piece: Piece, move: Move } | null>(null);
   const [pieceModels, setPieceModels] = useState<Record<string, THREE.Object3D> | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadingMessage, setLoadingMessage] = useState('Loading Default 3D Models...');
   const [hoveredSquare, setHoveredSquare] = useState<{ x: number, y: number, z: number } | null>(null);
+  // The layer under the pointer on the 2D layer boards.
+  const [hoveredLayer, setHoveredLayer] = useState<number | null>(null);
+
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [clock, setClock] = useState<ChessClock | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const [computerColor, setComputerColor] = useState<Piece['color'] | null>(null);
+  const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+  const [computerPlayer, setComputerPlayer] = useState(COMPUTER_PLAYERS[0]);
+  const [isComputerThinking, setIsComputerThinking] = useState(false);
+  const engineRef = useRef<ComputerPlayer | null>(null);
+
+  const [online, setOnline] = useState<RelaySession | 'connecting' | null>(null);
+  const relayRef = useRef<RelayClient | null>(null);
+
+  const [isAnalysing, setIsAnalysing] = useState(false);
+  const [analysisLines, setAnalysisLines] = useState(3);
+  const [analysis, setAnalysis] = useState<PositionAnalysis | null>(null);
+  const [previewMove, setPreviewMove] = useState<Move | null>(null);
+  const analysisEngineRef = useRef<EngineClient | null>(null);
+
+  const boardState = game.board();
+  const turn = game.turn();
+  const capturedPieces = game.capturedPieces();
+  const gameStatus = game.status();
+  const variant = game.variant();
+  const onlineColor = online && online !== 'connecting' ? online.color : null;
+  const isComputerAvailable = !online && computerPlayer.supports(game.position());
+  // Players in a network game get no engine help; spectators may analyse.
+  const isAnalysisAvailable = !onlineColor && engineSupports(game.position());
+  const isAnalysisRunning = isAnalysing && isAnalysisAvailable;
+  // The clock stops while the game is over, an earlier ply is on display or a
+  // promotion piece is being chosen.
+  const isClockRunning = !!clock && !isGameOver(gameStatus) && !game.canRedo() && !promotionData;
 
   // Effect for initial default model load
   useEffect(() => {
     const loadDefaultModels = async () => {
       try {
         // Here we can use a pre-defined mapping for the default model
-        const defaultMapping: Record<Piece['type'], string> = {
+        const defaultMapping: Record<OrthodoxPieceType, string> = {
           P: 'Modern_Pawn', R: 'Modern_Rook', N: 'Modern_Knight',
           B: 'Modern_Bishop', Q: 'Modern_Queen', K: 'Modern_King'
         };
@@ -46,78 +96,165 @@ const App: React.FC = () => {
 
   useEffect(() => {
     if (selectedPiece) {
-      setValidMoves(calculateValidMoves(selectedPiece, boardState));
+      setValidMoves(game.legalMovesFor(selectedPiece));
     } else {
       setValidMoves([]);
     }
-  }, [selectedPiece, boardState]);
-
-  const executeMove = useCallback((piece: Piece, targetX: number, targetY: number, targetZ: number, move: Move) => {
-    const { x: oldX, y: oldY, z: oldZ, color } = piece;
-
-    const promotionRank = color === 'white' ? 7 : 0;
-    if (piece.type === 'P' && targetZ === promotionRank) {
-        setPromotionData({ piece, x: targetX, y: targetY, z: targetZ });
+  }, [game, selectedPiece, boardState]);
+
+  const playMove = useCallback((move: Move) => {
+    // A move played from an earlier ply continues from the times recorded there.
+    const moveClock = clock && game.canRedo()
+      ? ChessClock.fromHistory(clock.control, game.history().slice(0, game.ply()), game.turn())
+      : clock;
+    const time = Date.now();
+    // The flag can fall between two checks of the clock ticker; a move played
+    // then comes too late and loses on time instead.
+    if (moveClock && moveClock.timeLeft(game.turn(), time) <= 0) {
+      moveClock.pause(time);
+      if (moveClock !== clock) setClock(moveClock);
+      game.flag();
+      setRevision(r => r + 1);
+      setSelectedPiece(null);
+      return;
+    }
+    if (onlineColor) {
+      try {
+        relayRef.current?.sendMove(move);
+      } catch (error) {
+        alert("Could not send the move:\n" + (error as Error).message);
         return;
+      }
     }
+    const clockMs = moveClock?.press(game.turn(), time);
+    if (moveClock && moveClock !== clock) setClock(moveClock);
+    game.applyMove(move, clockMs);
+    setRevision(r => r + 1);
+    setSelectedPiece(null);
+  }, [game, clock, onlineColor]);
 
-    const newBoardState = JSON.parse(JSON.stringify(boardState));
-    const targetPiece = newBoardState[targetX][targetY][targetZ];
-    
-    if (targetPiece) {
-        if (targetPiece.type === 'K') {
-            setGameStatus(`${color.toUpperCase()} WINS!`);
-        }
-        const opponentColor = color === 'white' ? 'black' : 'white';
-        setCapturedPieces(prev => ({
-            ...prev,
-            [opponentColor]: [...prev[opponentColor], targetPiece]
-        }));
+  const updateGame = useCallback((update: () => void) => {
+    update();
+    setRevision(r => r + 1);
+    setSelectedPiece(null);
+  }, []);
+
+  // Tick the clock while it runs and call the flag when the side to move runs
+  // out of time.
+  useEffect(() => {
+    if (!clock) return;
+    if (!isClockRunning) {
+      clock.pause(Date.now());
+      setNow(Date.now());
+      return;
     }
+    clock.resume(Date.now());
+    const interval = setInterval(() => {
+      const time = Date.now();
+      setNow(time);
+      if (clock.flagged(time)) {
+        clearInterval(interval);
+        clock.pause(time);
+        updateGame(() => game.flag());
+      }
+    }, 100);
+    return () => clearInterval(interval);
+  }, [game, clock, isClockRunning, updateGame]);
 
-    newBoardState[oldX][oldY][oldZ] = null;
-
-    if (move.castle) {
-        const movedKing = { ...piece, x: targetX, y: targetY, z: targetZ, hasMoved: true };
-        newBoardState[targetX][targetY][targetZ] = movedKing;
-
-        if (move.castle === 'king') {
-            const rook = newBoardState[7][targetY][targetZ];
-            if(rook) {
-                newBoardState[7][targetY][targetZ] = null;
-                rook.x = targetX - 1;
-                rook.hasMoved = true;
-                newBoardState[targetX - 1][targetY][targetZ] = rook;
-            }
-        } else { // Queenside
-            const rook = newBoardState[0][targetY][targetZ];
-            if(rook) {
-                newBoardState[0][targetY][targetZ] = null;
-                rook.x = targetX + 1;
-                rook.hasMoved = true;
-                newBoardState[targetX + 1][targetY][targetZ] = rook;
-            }
-        }
+  // The computer only plays the variants and pieces its engine supports.
+  useEffect(() => {
+    if (!isComputerAvailable) setComputerColor(null);
+  }, [isComputerAvailable]);
+
+  useEffect(() => {
+    const engine = computerPlayer.create();
+    engineRef.current = engine;
+    return () => engine.terminate();
+  }, [computerPlayer]);
+
+  // Let the computer move whenever it is its turn at the latest position.
+  // Reviewing an earlier ply pauses it until the game is back at the end.
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !isComputerAvailable || computerColor !== turn || isGameOver(gameStatus) || game.canRedo()) return;
+
+    let cancelled = false;
+    setIsComputerThinking(true);
+    engine.search(game.position(), DIFFICULTY_LIMITS[difficulty])
+      .then(move => {
+        if (!cancelled && move) playMove(move);
+      })
+      .catch(error => {
+        if (!cancelled) console.error("Computer opponent failed:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsComputerThinking(false);
+      });
+
+    return () => {
+      cancelled = true;
+      engine.cancel();
+      setIsComputerThinking(false);
+    };
+  }, [game, boardState, turn, gameStatus, computerColor, computerPlayer, isComputerAvailable, difficulty, playMove]);
+
+  // The analysis engine has its own worker, so it can study the position on
+  // display while the computer opponent searches.
+  useEffect(() => {
+    if (!isAnalysisRunning) return;
+    const engine = new EngineClient();
+    analysisEngineRef.current = engine;
+    return () => {
+      engine.terminate();
+      analysisEngineRef.current = null;
+    };
+  }, [isAnalysisRunning]);
+
+  // Reanalyse whenever another position comes on display, showing every depth
+  // as it finishes.
+  useEffect(() => {
+    setAnalysis(null);
+    setPreviewMove(null);
+    const engine = analysisEngineRef.current;
+    if (!engine || !isAnalysisRunning) return;
+
+    let cancelled = false;
+    engine.analyse(game.position(), ANALYSIS_LIMITS, analysisLines, partial => {
+      if (!cancelled) setAnalysis(partial);
+    }).catch(error => {
+      if (!cancelled) console.error("Analysis failed:", error);
+    });
+
+    return () => {
+      cancelled = true;
+      engine.cancel();
+    };
+  }, [game, boardState, turn, isAnalysisRunning, analysisLines]);
+
+  // Whether the user may move a piece right now. Online, only our own side
+  // moves, at the latest position and while connected. Spectators have no
+  // side, so the board is read-only for them.
+  const canMovePieces = !isGameOver(gameStatus) && !promotionData && turn !== computerColor
+    && !(online && (online === 'connecting' || turn !== online.color || !online.connected || game.canRedo()));
+
+  // Plays a move picked on the board, asking for the promotion piece first.
+  const submitMove = useCallback((piece: Piece, move: Move) => {
+    if (isPromotionMove(piece, move, variant)) {
+      setPromotionData({ piece, move });
     } else {
-        const movedPiece = { ...piece, x: targetX, y: targetY, z: targetZ, hasMoved: true };
-        newBoardState[targetX][targetY][targetZ] = movedPiece;
+      playMove(move);
     }
-    
-    setBoardState(newBoardState);
-    setTurn(t => t === 'white' ? 'black' : 'white');
-    setSelectedPiece(null);
-  }, [boardState]);
-
+  }, [variant, playMove]);
 
   const handleSquareClick = useCallback((x: number, y: number, z: number) => {
-    if (gameStatus !== 'active' || promotionData) return;
+    if (!canMovePieces) return;
 
     const clickedPiece = boardState[x][y][z];
 
     if (selectedPiece) {
         const move = validMoves.find(m => m.x === x && m.y === y && m.z === z);
         if (move) {
-            executeMove(selectedPiece, x, y, z, move);
+            submitMove(selectedPiece, move);
             return;
         }
 
@@ -131,41 +268,197 @@ const App: React.FC = () => {
             setSelectedPiece(clickedPiece);
         }
     }
-  }, [boardState, selectedPiece, validMoves, turn, executeMove, gameStatus, promotionData]);
+  }, [boardState, selectedPiece, validMoves, turn, canMovePieces, submitMove]);
+
+  // Dragging a piece selects it, so its targets show while it is dragged.
+  // Returns whether the piece may be dragged.
+  const handlePieceDragStart = useCallback((x: number, y: number, z: number) => {
+    const piece = boardState[x][y][z];
+    if (!canMovePieces || !piece || piece.color !== turn) return false;
+    setSelectedPiece(piece);
+    return true;
+  }, [boardState, turn, canMovePieces]);
+
+  // Returns whether the drop made a move; the view puts the piece back if not.
+  const handlePieceDrop = useCallback((from: Square, to: Square) => {
+    const piece = boardState[from.x][from.y][from.z];
+    if (!canMovePieces || !piece || piece.color !== turn) return false;
+    const move = game.legalMovesFor(piece).find(m => m.x === to.x && m.y === to.y && m.z === to.z);
+    if (!move) return false;
+    submitMove(piece, move);
+    return true;
+  }, [game, boardState, turn, canMovePieces, submitMove]);
   
+  const handleLayerSquareHover = useCallback((square: Square | null) => {
+    setHoveredSquare(square);
+    setHoveredLayer(square?.z ?? null);
+  }, []);
+
+  const navigateHistory = useCallback((navigate: () => void) => {
+    navigate();
+    setRevision(r => r + 1);
+    setSelectedPiece(null);
+    setPromotionData(null);
+  }, []);
+
+  // Draw offers and resignations, like moves, act on the ply on display.
+  const handleOfferDraw = useCallback(() => updateGame(() => game.offerDraw()), [game, updateGame]);
+  const handleAcceptDraw = useCallback(() => updateGame(() => game.acceptDraw()), [game, updateGame]);
+  const handleDeclineDraw = useCallback(() => updateGame(() => game.declineDraw()), [game, updateGame]);
+  const handleResign = useCallback(() => {
+    const loser = computerColor ? (computerColor === 'white' ? 'black' : 'white') : turn;
+    updateGame(() => game.resign(loser));
+  }, [game, computerColor, turn, updateGame]);
+
+  // The computer answers draw offers straight away. Only the built-in
+  // evaluation can judge them, so other engines always decline.
+  useEffect(() => {
+    const offeredBy = pendingDrawOffer(gameStatus);
+    if (!computerColor || !isComputerAvailable || !offeredBy || offeredBy === computerColor) return;
+    if (engineSupports(game.position()) && shouldAcceptDraw(game.position(), computerColor)) {
+      updateGame(() => game.acceptDraw());
+    } else {
+      updateGame(() => game.declineDraw());
+      alert("The computer declines the draw offer.");
+    }
+  }, [game, gameStatus, computerColor, isComputerAvailable, updateGame]);
+
+  const handleUndo = useCallback(() => navigateHistory(() => game.undo()), [game, navigateHistory]);
+  const handleRedo = useCallback(() => navigateHistory(() => game.redo()), [game, navigateHistory]);
+  const handleSelectPly = useCallback((ply: number) => navigateHistory(() => game.goToPly(ply)), [game, navigateHistory]);
+
+  // Keyboard shortcuts for stepping through the move history
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      const isModified = e.ctrlKey || e.metaKey;
+      if ((isModified && key === 'z' && !e.shiftKey) || (!isModified && key === 'arrowleft')) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((isModified && (key === 'y' || (key === 'z' && e.shiftKey))) || (!isModified && key === 'arrowright')) {
+        e.preventDefault();
+        handleRedo();
+      } else if (!isModified && key === 'home') {
+        e.preventDefault();
+        handleSelectPly(0);
+      } else if (!isModified && key === 'end') {
+        e.preventDefault();
+        handleSelectPly(game.history().length);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [game, handleUndo, handleRedo, handleSelectPly]);
+
   const handlePromotion = (promotedTo: Piece['type']) => {
     if (!promotionData) return;
-    const { piece, x, y, z } = promotionData;
-    
-    const newBoardState = JSON.parse(JSON.stringify(boardState));
-
-    newBoardState[piece.x][piece.y][piece.z] = null;
-    
-    const targetPiece = newBoardState[x][y][z];
-    if (targetPiece) {
-        if (targetPiece.type === 'K') {
-            setGameStatus(`${piece.color.toUpperCase()} WINS!`);
-        }
-        const opponentColor = piece.color === 'white' ? 'black' : 'white';
-        setCapturedPieces(prev => ({
-            ...prev,
-            [opponentColor]: [...prev[opponentColor], targetPiece]
-        }));
+    playMove({ ...promotionData.move, promotion: promotedTo });
+    setPromotionData(null);
+  };
+
+  // Network games are played from the current variant's starting position. The
+  // relay's copy of the game replaces ours whenever a move comes in or the game
+  // is resynced, but whoever is reviewing an earlier ply of the same game stays
+  // on it. Clocks are not shared, so network games are untimed.
+  const startOnlineGame = (request: ClientMessage) => {
+    relayRef.current?.close();
+    setOnline('connecting');
+    setComputerColor(null);
+    setTimeControl(null);
+    setClock(null);
+    setGameTags({});
+    relayRef.current = new RelayClient(RELAY_URL, request, {
+      onSession: setOnline,
+      onGame: (sharedGame) => {
+        setGame(current => {
+          const sameGame = toPositionString(current.startPosition()) === toPositionString(sharedGame.startPosition());
+          if (sameGame && current.canRedo() && current.ply() <= sharedGame.history().length) {
+            sharedGame.goToPly(current.ply());
+          }
+          return sharedGame;
+        });
+        setSelectedPiece(null);
+        setPromotionData(null);
+      },
+      onError: (message) => {
+        setOnline(current => current === 'connecting' ? null : current);
+        alert("Network game:\n" + message);
+      }
+    });
+  };
+
+  const handleCreateRoom = (color: Piece['color']) =>
+    startOnlineGame({ type: 'create', start: toPositionString(initialPosition(variant)), color });
+
+  const handleJoinRoom = (room: string) => startOnlineGame({ type: 'join', room });
+
+  const handleWatchRoom = (room: string) => startOnlineGame({ type: 'watch', room });
+
+  const leaveOnlineGame = () => {
+    relayRef.current?.close();
+    relayRef.current = null;
+    setOnline(null);
+  };
+
+  useEffect(() => () => relayRef.current?.close(), []);
+
+  const handleExportGame = () => {
+    const text = exportGameRecord(game, gameTags, timeControl);
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `volumetric-chess-${new Date().toISOString().slice(0, 10)}.vpgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportGame = (fileContent: string) => {
+    try {
+      const { game: importedGame, tags, timeControl: importedTimeControl } = importGameRecord(fileContent);
+      leaveOnlineGame();
+      setGame(importedGame);
+      setGameTags(tags);
+      setTimeControl(importedTimeControl);
+      setClock(importedTimeControl
+        ? ChessClock.fromHistory(importedTimeControl, importedGame.history().slice(0, importedGame.ply()), importedGame.turn())
+        : null);
+      setSelectedPiece(null);
+      setPromotionData(null);
+    } catch (error) {
+      console.error("Game import failed:", error);
+      alert("Could not import game:\n" + (error as Error).message);
     }
-    
-    newBoardState[x][y][z] = {
-        type: promotedTo,
-        color: piece.color,
-        x, y, z,
-        hasMoved: true,
-    };
+  };
 
-    setBoardState(newBoardState);
-    setTurn(t => t === 'white' ? 'black' : 'white');
+  const handleLoadPosition = (positionString: string) => {
+    try {
+      setGame(Game.fromPositionString(positionString));
+      leaveOnlineGame();
+      setGameTags({});
+      setClock(timeControl ? new ChessClock(timeControl) : null);
+      setSelectedPiece(null);
+      setPromotionData(null);
+    } catch (error) {
+      alert("Invalid position string:\n" + (error as Error).message);
+    }
+  };
+
+  const handleVariantChange = (newVariant: Variant) => {
+    leaveOnlineGame();
+    setGame(new Game(initialPosition(newVariant)));
+    setGameTags({});
+    setClock(timeControl ? new ChessClock(timeControl) : null);
     setSelectedPiece(null);
     setPromotionData(null);
   };
 
+  // A new time control restarts both clocks; they start with the next move.
+  const handleTimeControlChange = (newTimeControl: TimeControl | null) => {
+    setTimeControl(newTimeControl);
+    setClock(newTimeControl ? new ChessClock(newTimeControl) : null);
+  };
+
   const handleCustomModelLoad = async (fileContent: string) => {
     setIsLoading(true);
     setLoadingMessage('Analyzing 3D Model with AI...');
@@ -254,12 +547,55 @@ ${fileContent}`;
           turn={turn}
           capturedPieces={capturedPieces}
           boardState={boardState}
+          variant={variant}
+          onVariantChange={handleVariantChange}
+          timeControl={timeControl}
+          onTimeControlChange={handleTimeControlChange}
+          clockTimes={clock && { white: clock.timeLeft('white', now), black: clock.timeLeft('black', now) }}
+          activeClock={isClockRunning ? clock?.activeColor() ?? null : null}
           selectedPiece={selectedPiece}
           validMoves={validMoves}
           onSquareClick={handleSquareClick}
-          onSquareHover={setHoveredSquare}
+          onSquareHover={handleLayerSquareHover}
+          onPieceDragStart={handlePieceDragStart}
+          onPieceDrop={handlePieceDrop}
           onCustomModelLoad={handleCustomModelLoad}
+          onExportGame={handleExportGame}
+          onImportGame={handleImportGame}
+          positionString={game.toPositionString()}
+          onLoadPosition={handleLoadPosition}
+          computerColor={computerColor}
+          onComputerColorChange={setComputerColor}
+          isComputerAvailable={isComputerAvailable}
+          computerPlayer={computerPlayer}
+          onComputerPlayerChange={setComputerPlayer}
+          online={online}
+          onCreateRoom={handleCreateRoom}
+          onJoinRoom={handleJoinRoom}
+          onWatchRoom={handleWatchRoom}
+          onLeaveRoom={leaveOnlineGame}
+          difficulty={difficulty}
+          onDifficultyChange={setDifficulty}
+          isComputerThinking={isComputerThinking}
           gameStatus={gameStatus}
+          history={game.history()}
+          currentPly={game.ply()}
+          canUndo={game.canUndo()}
+          canRedo={game.canRedo()}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onSelectPly={handleSelectPly}
+          onOfferDraw={handleOfferDraw}
+          onAcceptDraw={handleAcceptDraw}
+          onDeclineDraw={handleDeclineDraw}
+          onResign={handleResign}
+          isAnalysisAvailable={isAnalysisAvailable}
+          isAnalysing={isAnalysisRunning}
+          onAnalysingChange={setIsAnalysing}
+          analysisLines={analysisLines}
+          onAnalysisLinesChange={setAnalysisLines}
+          analysis={analysis}
+          onPreviewMove={setPreviewMove}
         />
       </div>
       
@@ -273,12 +609,20 @@ ${fileContent}`;
       <div className="flex-grow h-full relative">
         <ThreeScene 
             boardState={boardState}
+            variant={variant}
             selectedPiece={selectedPiece}
             validMoves={validMoves}
             pieceModels={pieceModels}
             isLoading={isLoading}
             loadingMessage={loadingMessage}
             hoveredSquare={hoveredSquare}
+            previewMove={previewMove}
+            turn={turn}
+            focusedLayer={hoveredLayer}
+            onSquareClick={handleSquareClick}
+            onSquareHover={setHoveredSquare}
+            onPieceDragStart={handlePieceDragStart}
+            onPieceDrop={handlePieceDrop}
         />
       </div>
     </div>
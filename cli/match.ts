@@ -0,0 +1,138 @@
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { Piece } from '../types';
+import { initialPosition } from '../lib/gameLogic';
+import { BUILT_IN_ENGINE } from '../lib/builtInEngine';
+import type { VolumetricEngine } from '../lib/engineProtocol';
+import { ProtocolEngineClient } from '../lib/engineProtocolClient';
+import { inProcessEngineLink } from '../lib/engineTransports';
+import { exportGameRecord, resultFromStatus } from '../lib/gameRecord';
+import { estimateElo, playMatchGame, scoreFor } from '../lib/match';
+import type { MatchScore } from '../lib/match';
+import { RANDOM_ENGINE } from '../lib/randomEngine';
+import { findVariant, STANDARD_VARIANT } from '../lib/variants';
+import { spawnEngineLink } from './stdioTransport';
+
+// =====================================================================================
+// == ENGINE MATCH RUNNER ==
+// =====================================================================================
+//
+// Plays engine-vs-engine matches without a browser:
+//
+//   npm run match -- --engine1 builtin --engine2 random --games 10 --movetime 500
+//
+// An engine is "builtin" or "random", which run in this process, or the
+// command line of an external engine program speaking the engine protocol
+// (see lib/engineProtocol.ts), e.g. --engine2 "tsx cli/randomEngine.ts". The
+// engines swap colours every game. Each finished game is written to the
+// --out file as a game record (see lib/gameRecord.ts), and the score and Elo
+// estimate of engine 1 against engine 2 are printed at the end.
+
+const IN_PROCESS_ENGINES: Record<string, VolumetricEngine> = {
+    builtin: BUILT_IN_ENGINE,
+    random: RANDOM_ENGINE
+};
+
+const USAGE = `Usage: npm run match -- [options]
+  --engine1 <engine>     builtin, random or an engine command line (default builtin)
+  --engine2 <engine>     (default random)
+  --games <n>            games to play (default 10)
+  --movetime <ms>        time per move (default 500)
+  --grace <ms>           extra time before an engine loses on time (default 1000)
+  --max-plies <n>        adjudicate a draw after this many plies (default 400)
+  --variant <name>       variant name, as in game records (default the standard game)
+  --out <file>           game records file (default match-games.txt)`;
+
+function count(text: string, option: string): number {
+    const value = Number(text);
+    if (!Number.isInteger(value) || value < 1) throw new Error(`--${option} must be a positive whole number`);
+    return value;
+}
+
+function openEngine(spec: string): ProtocolEngineClient {
+    const builtIn = IN_PROCESS_ENGINES[spec];
+    if (builtIn) return new ProtocolEngineClient(inProcessEngineLink(builtIn));
+    const [command, ...args] = spec.trim().split(/\s+/);
+    return new ProtocolEngineClient(spawnEngineLink(command, args));
+}
+
+const formatElo = (value: number) => Number.isFinite(value) ? value.toFixed(0) : value > 0 ? '+inf' : '-inf';
+
+async function main(): Promise<void> {
+    const { values } = parseArgs({
+        options: {
+            engine1: { type: 'string', default: 'builtin' },
+            engine2: { type: 'string', default: 'random' },
+            games: { type: 'string', default: '10' },
+            movetime: { type: 'string', default: '500' },
+            grace: { type: 'string', default: '1000' },
+            'max-plies': { type: 'string', default: '400' },
+            variant: { type: 'string' },
+            out: { type: 'string', default: 'match-games.txt' },
+            help: { type: 'boolean', default: false }
+        }
+    });
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+    const games = count(values.games, 'games');
+    const variant = values.variant === undefined ? STANDARD_VARIANT : findVariant(values.variant);
+    if (!variant) throw new Error(`Unknown variant ${values.variant}`);
+    const options = {
+        movetimeMs: count(values.movetime, 'movetime'),
+        graceMs: count(values.grace, 'grace'),
+        maxPlies: count(values['max-plies'], 'max-plies'),
+        start: initialPosition(variant)
+    };
+
+    const engines = [openEngine(values.engine1), openEngine(values.engine2)];
+    const names = (await Promise.all(engines.map(engine => engine.ready()))).map(identity => identity.name);
+    console.log(`${names[0]} vs ${names[1]}: ${games} games, ${options.movetimeMs} ms per move`);
+
+    const score: MatchScore = { wins: 0, losses: 0, draws: 0 };
+    const records: string[] = [];
+    for (let round = 1; round <= games; round++) {
+        // Engine 1 has white in odd rounds.
+        const first: Piece['color'] = round % 2 === 1 ? 'white' : 'black';
+        const second: Piece['color'] = first === 'white' ? 'black' : 'white';
+        const { game, termination } = await playMatchGame({ [first]: engines[0], [second]: engines[1] } as Record<Piece['color'], ProtocolEngineClient>, options);
+
+        const points = scoreFor(game, first);
+        if (points === 1) score.wins++;
+        else if (points === 0) score.losses++;
+        else score.draws++;
+
+        const status = game.status();
+        const adjudication = termination === 'adjudicated'
+            ? `draw after ${options.maxPlies} plies`
+            : termination === 'illegal move' && status.state === 'resigned'
+                ? `illegal move by ${status.winner === 'white' ? 'black' : 'white'}`
+                : null;
+        const record = exportGameRecord(game, {
+            Event: 'Engine match',
+            Site: 'Headless match runner',
+            Round: String(round),
+            White: names[first === 'white' ? 0 : 1],
+            Black: names[first === 'white' ? 1 : 0],
+            ...(adjudication && { Adjudication: adjudication })
+        });
+        records.push(record);
+        // Rewritten after every game, so an interrupted match keeps its games.
+        writeFileSync(values.out, records.join('\n'));
+        console.log(`Game ${round}: ${resultFromStatus(status)} in ${game.ply()} plies${termination ? ` (${termination})` : ''}`
+            + `  score ${score.wins + score.draws / 2}/${round}`);
+    }
+
+    const { elo, margin } = estimateElo(score);
+    console.log(`\n${names[0]} vs ${names[1]}: +${score.wins} -${score.losses} =${score.draws}`);
+    console.log(`Elo difference: ${formatElo(elo)} +/- ${formatElo(margin).replace('+', '')} (95%)`);
+    console.log(`Games written to ${values.out}`);
+    engines.forEach(engine => engine.close());
+}
+
+main().catch(error => {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(1);
+});
@@ -0,0 +1,6 @@
+import { RANDOM_ENGINE } from '../lib/randomEngine';
+import { serveEngineOverStdio } from './stdioTransport';
+
+// The random reference engine as a command line program:
+//   npm run engine:random
+serveEngineOverStdio(RANDOM_ENGINE);
@@ -0,0 +1,34 @@
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { EngineProtocolServer } from '../lib/engineProtocol';
+import type { VolumetricEngine } from '../lib/engineProtocol';
+import type { EngineLink } from '../lib/engineProtocolClient';
+
+// Node transports for the engine protocol: one protocol line per text line on
+// the engine's stdin and stdout.
+
+// Engine side: serves `engine` to whatever runs this process.
+export function serveEngineOverStdio(engine: VolumetricEngine): void {
+    const lines = createInterface({ input: process.stdin, terminal: false });
+    const server = new EngineProtocolServer(engine, line => process.stdout.write(`${line}\n`), () => lines.close());
+    lines.on('line', line => server.receive(line));
+}
+
+// Interface side: starts an engine program and talks to it over its stdio.
+export function spawnEngineLink(command: string, args: string[] = []): EngineLink {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'inherit'] });
+    const lines = createInterface({ input: child.stdout, terminal: false });
+    child.stdin.on('error', error => console.error(`Engine ${command}:`, error.message));
+    child.on('error', error => console.error(`Could not start engine ${command}:`, error.message));
+    return {
+        send: line => {
+            if (child.stdin.writable) child.stdin.write(`${line}\n`);
+        },
+        onLine: listener => lines.on('line', listener),
+        close: () => {
+            child.stdin.end();
+            // An engine that ignores quit is not left running.
+            setTimeout(() => child.kill(), 1000).unref();
+        }
+    };
+}
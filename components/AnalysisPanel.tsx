@@ -0,0 +1,103 @@
+import React from 'react';
+import type { Move, Piece } from '../types';
+import { MATE_SCORE } from '../lib/engine';
+import type { PositionAnalysis } from '../lib/engine';
+import { squareToNotation } from '../lib/notation';
+
+interface AnalysisPanelProps {
+  isAvailable: boolean;
+  isAnalysing: boolean;
+  onAnalysingChange: (isAnalysing: boolean) => void;
+  lineCount: number;
+  onLineCountChange: (lineCount: number) => void;
+  analysis: PositionAnalysis | null;
+  // The side to move in the analysed position; engine scores are from its
+  // point of view.
+  turn: Piece['color'];
+  onPreviewMove: (move: Move | null) => void;
+}
+
+const LINE_COUNTS = [1, 3, 5];
+
+// Engine scores count plies to a forced mate down from MATE_SCORE.
+const isMateScore = (score: number) => Math.abs(score) > MATE_SCORE / 2;
+
+// White's view of a score: "+1.25", "-0.40", "#3" or "-#2".
+const formatScore = (whiteScore: number) => {
+  if (isMateScore(whiteScore)) {
+    const moves = Math.ceil((MATE_SCORE - Math.abs(whiteScore)) / 2);
+    return `${whiteScore < 0 ? '-' : ''}#${moves}`;
+  }
+  return `${whiteScore > 0 ? '+' : ''}${(whiteScore / 100).toFixed(2)}`;
+};
+
+// White's share of the evaluation bar, from its expected score.
+const whiteShare = (whiteScore: number) => {
+  if (isMateScore(whiteScore)) return whiteScore > 0 ? 1 : 0;
+  return 1 / (1 + Math.pow(10, -whiteScore / 400));
+};
+
+const formatMove = (move: Move) =>
+  `${squareToNotation(move.from)}-${squareToNotation(move)}${move.promotion ? `=${move.promotion}` : ''}`;
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ isAvailable, isAnalysing, onAnalysingChange, lineCount, onLineCountChange, analysis, turn, onPreviewMove }) => {
+  const toWhite = (score: number) => turn === 'white' ? score : -score;
+  const best = analysis?.lines[0];
+  const share = best ? whiteShare(toWhite(best.score)) : 0.5;
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg shadow-xl space-y-2 text-sm">
+      <div className="flex justify-between items-center">
+        <h2 className="font-bold text-gray-300">Analysis</h2>
+        <div className="flex space-x-1">
+          <select
+            value={lineCount}
+            onChange={(e) => onLineCountChange(Number(e.target.value))}
+            disabled={!isAnalysing}
+            className="px-1 py-0.5 bg-gray-700 text-gray-200 rounded border border-gray-600 focus:outline-none focus:border-pink-400 disabled:opacity-40"
+            aria-label="Candidate lines"
+          >
+            {LINE_COUNTS.map(n => <option key={n} value={n}>{n} {n === 1 ? 'line' : 'lines'}</option>)}
+          </select>
+          <button
+            onClick={() => onAnalysingChange(!isAnalysing)}
+            disabled={!isAvailable}
+            title={isAvailable ? 'Let the built-in engine analyse the position on display' : 'Analysis needs the standard variant and is off while playing a network game'}
+            className={`px-3 py-0.5 font-bold rounded transition-colors duration-200 disabled:opacity-40 ${isAnalysing ? 'bg-pink-500 hover:bg-pink-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {isAnalysing ? 'On' : 'Off'}
+          </button>
+        </div>
+      </div>
+
+      {isAnalysing && (
+        <>
+          <div className="flex items-center space-x-2">
+            <div className="flex-1 h-4 rounded bg-gray-900 overflow-hidden border border-gray-600" title="Evaluation">
+              <div className="h-full bg-gray-100 transition-all duration-500" style={{ width: `${share * 100}%` }} />
+            </div>
+            <span className="w-14 text-right font-mono font-bold">{best ? formatScore(toWhite(best.score)) : '…'}</span>
+          </div>
+          <p className="text-xs text-gray-400">
+            {analysis ? `Depth ${analysis.depth} · ${analysis.nodes.toLocaleString()} nodes` : 'Analysing…'}
+          </p>
+          {analysis && analysis.lines.length === 0 && <p className="text-gray-500 text-center">No legal moves.</p>}
+          <ol className="space-y-1" onMouseLeave={() => onPreviewMove(null)}>
+            {analysis?.lines.map((line, i) => (
+              <li
+                key={i}
+                onMouseEnter={() => onPreviewMove(line.moves[0])}
+                className="flex items-start space-x-2 px-1 rounded hover:bg-gray-700 cursor-default"
+              >
+                <span className="w-14 flex-shrink-0 font-mono font-bold text-pink-300">{formatScore(toWhite(line.score))}</span>
+                <span className="font-mono text-gray-200 break-words min-w-0">{line.moves.map(formatMove).join(' ')}</span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
@@ -1,40 +1,208 @@
-import React from 'react';
-import type { Piece, BoardState, Move } from '../types';
-import { PIECE_VALUES, PIECE_SYMBOLS } from '../types';
-import LayerCanvas from './LayerCanvas';
+import React, { useEffect, useRef, useState } from 'react';
+import type { Piece, BoardState, Move, GameStatus, DrawReason, Square, Variant, TimeControl } from '../types';
+import { CELL_SIZE_2D } from '../types';
+import type { MoveRecord } from '../lib/game';
+import type { Difficulty, PositionAnalysis } from '../lib/engine';
+import { COMPUTER_PLAYERS } from '../lib/computerPlayers';
+import type { ComputerPlayerOption } from '../lib/computerPlayers';
+import { TIME_CONTROLS, formatClock } from '../lib/clock';
+import type { ClockTimes } from '../lib/clock';
+import type { RelaySession } from '../lib/relayClient';
+import { formatTimeControl } from '../lib/gameRecord';
+import { pendingDrawOffer } from '../lib/gameLogic';
+import { PIECE_VALUES, PIECE_SYMBOLS } from '../lib/pieces';
+import { VARIANTS, findVariant } from '../lib/variants';
+import LayerCanvas, { DRAG_TOLERANCE, layerCellCenter, layerSquareAt } from './LayerCanvas';
+import MoveHistory from './MoveHistory';
+import AnalysisPanel from './AnalysisPanel';
 
 interface InfoPanelProps {
   turn: 'white' | 'black';
   capturedPieces: { white: Piece[]; black: Piece[] };
   boardState: BoardState;
+  variant: Variant;
+  onVariantChange: (variant: Variant) => void;
+  timeControl: TimeControl | null;
+  onTimeControlChange: (timeControl: TimeControl | null) => void;
+  clockTimes: ClockTimes | null;
+  activeClock: Piece['color'] | null;
   selectedPiece: Piece | null;
   validMoves: Move[];
   onSquareClick: (x: number, y: number, z: number) => void;
   onSquareHover: (coords: { x: number; y: number; z: number } | null) => void;
+  onPieceDragStart: (x: number, y: number, z: number) => boolean;
+  onPieceDrop: (from: Square, to: Square) => boolean;
   onCustomModelLoad: (fileContent: string) => void;
-  gameStatus: string;
+  onExportGame: () => void;
+  onImportGame: (fileContent: string) => void;
+  positionString: string;
+  onLoadPosition: (positionString: string) => void;
+  computerColor: Piece['color'] | null;
+  onComputerColorChange: (color: Piece['color'] | null) => void;
+  isComputerAvailable: boolean;
+  computerPlayer: ComputerPlayerOption;
+  onComputerPlayerChange: (player: ComputerPlayerOption) => void;
+  online: RelaySession | 'connecting' | null;
+  onCreateRoom: (color: Piece['color']) => void;
+  onJoinRoom: (room: string) => void;
+  onWatchRoom: (room: string) => void;
+  onLeaveRoom: () => void;
+  difficulty: Difficulty;
+  onDifficultyChange: (difficulty: Difficulty) => void;
+  isComputerThinking: boolean;
+  gameStatus: GameStatus;
+  history: MoveRecord[];
+  currentPly: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelectPly: (ply: number) => void;
+  onOfferDraw: () => void;
+  onAcceptDraw: () => void;
+  onDeclineDraw: () => void;
+  onResign: () => void;
+  isAnalysisAvailable: boolean;
+  isAnalysing: boolean;
+  onAnalysingChange: (isAnalysing: boolean) => void;
+  analysisLines: number;
+  onAnalysisLinesChange: (lineCount: number) => void;
+  analysis: PositionAnalysis | null;
+  onPreviewMove: (move: Move | null) => void;
 }
 
+// A piece dragged between the layer canvases, which may be on different layers.
+interface LayerDrag {
+  from: Square;
+  piece: Piece;
+  // Where the pointer went down and where the piece is now, on the page.
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  // Set while a piece dropped on an illegal cell slides back.
+  returning: boolean;
+}
+
+const DROP_RETURN_MS = 200;
+
 const getPieceSymbol = (type: Piece['type'], color: Piece['color']) => {
   return PIECE_SYMBOLS[color][type] || type;
 };
 
-const InfoPanel: React.FC<InfoPanelProps> = ({ turn, capturedPieces, boardState, selectedPiece, validMoves, onSquareClick, onSquareHover, onCustomModelLoad, gameStatus }) => {
+const DRAW_REASONS: Record<DrawReason, string> = {
+  'repetition': 'by threefold repetition',
+  'fifty-move': 'by the fifty-move rule',
+  'insufficient-material': 'by insufficient material',
+  'agreement': 'by agreement',
+  'timeout-vs-insufficient-material': 'on time, with no mating material left'
+};
+
+const describeGameOver = (status: GameStatus): { title: string; reason: string } | null => {
+  switch (status.state) {
+    case 'checkmate':
+      return { title: `${status.winner.toUpperCase()} WINS!`, reason: 'by checkmate' };
+    case 'resigned':
+      return { title: `${status.winner.toUpperCase()} WINS!`, reason: 'by resignation' };
+    case 'timeout':
+      return { title: `${status.winner.toUpperCase()} WINS!`, reason: 'on time' };
+    case 'stalemate':
+      return { title: 'DRAW', reason: 'by stalemate' };
+    case 'draw':
+      return { title: 'DRAW', reason: DRAW_REASONS[status.reason] };
+    default:
+      return null;
+  }
+};
+
+const InfoPanel: React.FC<InfoPanelProps> = ({ turn, capturedPieces, boardState, variant, onVariantChange, timeControl, onTimeControlChange, clockTimes, activeClock, selectedPiece, validMoves, onSquareClick, onSquareHover, onPieceDragStart, onPieceDrop, onCustomModelLoad, onExportGame, onImportGame, positionString, onLoadPosition, computerColor, onComputerColorChange, isComputerAvailable, computerPlayer, onComputerPlayerChange, online, onCreateRoom, onJoinRoom, onWatchRoom, onLeaveRoom, difficulty, onDifficultyChange, isComputerThinking, gameStatus, history, currentPly, canUndo, canRedo, onUndo, onRedo, onSelectPly, onOfferDraw, onAcceptDraw, onDeclineDraw, onResign, isAnalysisAvailable, isAnalysing, onAnalysingChange, analysisLines, onAnalysisLinesChange, analysis, onPreviewMove }) => {
 
   const whiteMaterial = capturedPieces.black.reduce((sum, p) => sum + PIECE_VALUES[p.type], 0);
   const blackMaterial = capturedPieces.white.reduce((sum, p) => sum + PIECE_VALUES[p.type], 0);
   const materialAdvantage = whiteMaterial - blackMaterial;
 
+  const [pastedPosition, setPastedPosition] = useState('');
+  const [roomCode, setRoomCode] = useState('');
+  const [layerDrag, setLayerDrag] = useState<LayerDrag | null>(null);
+  const layerDragRef = useRef(layerDrag);
+  layerDragRef.current = layerDrag;
+  const isLayerDragActive = !!layerDrag && !layerDrag.returning;
+  const gameOver = describeGameOver(gameStatus);
+  const drawOfferedBy = pendingDrawOffer(gameStatus);
+
   const sortPieces = (a: Piece, b: Piece) => PIECE_VALUES[b.type] - PIECE_VALUES[a.type];
+
+  // Imported games may use a time control that is not on the list.
+  const listedIndex = timeControl ? TIME_CONTROLS.findIndex(t =>
+    t.control.mode === timeControl.mode && t.control.initialMs === timeControl.initialMs && t.control.incrementMs === timeControl.incrementMs
+  ) : -1;
+  const timeControlIndex = timeControl && listedIndex === -1 ? -2 : listedIndex;
+
+  const renderClock = (color: Piece['color']) => {
+    if (!clockTimes) return null;
+    const timeLeft = clockTimes[color];
+    const background = activeClock === color ? 'bg-gray-200' : 'bg-gray-900';
+    const text = timeLeft < 10_000 ? 'text-red-500' : activeClock === color ? 'text-gray-900' : 'text-gray-400';
+    return (
+      <span className={`font-mono text-xl px-2 rounded ${background} ${text}`}>
+        {formatClock(timeLeft)}
+      </span>
+    );
+  };
   
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const startLayerDrag = (square: Square, clientX: number, clientY: number) => {
+    const piece = boardState[square.x][square.y][square.z];
+    if (!piece || !onPieceDragStart(square.x, square.y, square.z)) return;
+    setLayerDrag({ from: square, piece, startX: clientX, startY: clientY, x: clientX, y: clientY, returning: false });
+  };
+
+  // The piece follows the pointer across all layers until it is dropped. A
+  // release without moving is left to the canvases as a click.
+  useEffect(() => {
+    if (!isLayerDragActive) return;
+    const onPointerMove = (e: PointerEvent) => {
+      setLayerDrag(drag => drag && !drag.returning ? { ...drag, x: e.clientX, y: e.clientY } : drag);
+    };
+    const onPointerUp = (e: PointerEvent) => {
+      const drag = layerDragRef.current;
+      if (!drag) return;
+      const moved = Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) > DRAG_TOLERANCE;
+      const target = layerSquareAt(e.clientX, e.clientY);
+      const isHome = !!target && target.x === drag.from.x && target.y === drag.from.y && target.z === drag.from.z;
+      const home = layerCellCenter(drag.from);
+      if (!moved || isHome || !home || (target && onPieceDrop(drag.from, target))) {
+        setLayerDrag(null);
+      } else {
+        setLayerDrag({ ...drag, ...home, returning: true });
+      }
+    };
+    window.addEventListener('pointermove', onPointerMove);
+    window.addEventListener('pointerup', onPointerUp);
+    return () => {
+      window.removeEventListener('pointermove', onPointerMove);
+      window.removeEventListener('pointerup', onPointerUp);
+    };
+  }, [isLayerDragActive, onPieceDrop]);
+
+  useEffect(() => {
+    if (!layerDrag?.returning) return;
+    const timer = setTimeout(() => setLayerDrag(null), DROP_RETURN_MS);
+    return () => clearTimeout(timer);
+  }, [layerDrag?.returning]);
+
+  // Only a piece that has left its cell is drawn following the pointer.
+  const shownDrag = layerDrag && (layerDrag.returning || Math.hypot(layerDrag.x - layerDrag.startX, layerDrag.y - layerDrag.startY) > DRAG_TOLERANCE)
+    ? layerDrag
+    : null;
+
+  const handleFileChange = (onLoad: (text: string) => void) => (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       const reader = new FileReader();
       reader.onload = (e) => {
         const text = e.target?.result as string;
         if (text) {
-          onCustomModelLoad(text);
+          onLoad(text);
         }
       };
       reader.onerror = () => {
@@ -51,11 +219,139 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ turn, capturedPieces, boardState,
     <div className="w-full h-full p-4 flex flex-col space-y-4 overflow-y-auto bg-gray-900 text-white">
       <h1 className="text-3xl font-extrabold text-pink-400 text-center mb-2">3D Volumetric Chess</h1>
       
+      <select
+        value={variant.name}
+        onChange={(e) => onVariantChange(findVariant(e.target.value) ?? variant)}
+        className="w-full px-2 py-1 text-sm bg-gray-800 text-gray-200 rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400"
+        aria-label="Variant"
+      >
+        {VARIANTS.map(v => <option key={v.name} value={v.name}>{v.name}</option>)}
+      </select>
+
+      <select
+        value={timeControlIndex}
+        onChange={(e) => onTimeControlChange(TIME_CONTROLS[Number(e.target.value)]?.control ?? null)}
+        disabled={!!online}
+        title={online ? 'Network games are untimed' : undefined}
+        className="w-full px-2 py-1 text-sm bg-gray-800 text-gray-200 rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400 disabled:opacity-40"
+        aria-label="Time control"
+      >
+        <option value={-1}>No clock</option>
+        {timeControl && timeControlIndex === -2 && <option value={-2}>Custom ({formatTimeControl(timeControl)})</option>}
+        {TIME_CONTROLS.map((t, i) => <option key={t.label} value={i}>{t.label}</option>)}
+      </select>
+
+      <div className="flex space-x-2 text-sm">
+        <select
+          value={computerColor ?? 'none'}
+          onChange={(e) => onComputerColorChange(e.target.value === 'none' ? null : e.target.value as Piece['color'])}
+          disabled={!isComputerAvailable}
+          title={isComputerAvailable ? undefined : online ? 'The computer does not play network games' : `The ${computerPlayer.name.toLowerCase()} does not play this variant`}
+          className="flex-1 min-w-0 px-2 py-1 bg-gray-800 text-gray-200 rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400 disabled:opacity-40"
+          aria-label="Opponent"
+        >
+          <option value="none">Two players</option>
+          <option value="black">Play vs computer as White</option>
+          <option value="white">Play vs computer as Black</option>
+        </select>
+        <select
+          value={difficulty}
+          onChange={(e) => onDifficultyChange(e.target.value as Difficulty)}
+          disabled={!computerColor}
+          className="px-2 py-1 bg-gray-800 text-gray-200 rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400 disabled:opacity-40"
+          aria-label="Computer difficulty"
+        >
+          <option value="easy">Easy</option>
+          <option value="medium">Medium</option>
+          <option value="hard">Hard</option>
+        </select>
+      </div>
+
+      <select
+        value={computerPlayer.name}
+        onChange={(e) => onComputerPlayerChange(COMPUTER_PLAYERS.find(p => p.name === e.target.value) ?? computerPlayer)}
+        disabled={!!online}
+        className="w-full px-2 py-1 text-sm bg-gray-800 text-gray-200 rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400 disabled:opacity-40"
+        aria-label="Computer engine"
+      >
+        {COMPUTER_PLAYERS.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+      </select>
+
+      <div className="p-3 rounded-lg bg-gray-800 shadow-lg space-y-2 text-sm">
+        {online === null ? (
+          <>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => onCreateRoom('white')}
+                className="flex-1 px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors duration-200"
+              >
+                Host as White
+              </button>
+              <button
+                onClick={() => onCreateRoom('black')}
+                className="flex-1 px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors duration-200"
+              >
+                Host as Black
+              </button>
+            </div>
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={roomCode}
+                onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                placeholder="Room code"
+                className="flex-1 min-w-0 px-2 py-1 bg-gray-900 text-gray-200 font-mono rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400"
+              />
+              <button
+                onClick={() => onJoinRoom(roomCode.trim())}
+                disabled={!roomCode.trim()}
+                className="px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 disabled:opacity-40 transition-colors duration-200"
+              >
+                Join
+              </button>
+              <button
+                onClick={() => onWatchRoom(roomCode.trim())}
+                disabled={!roomCode.trim()}
+                title="Follow the game as a spectator"
+                className="px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 disabled:opacity-40 transition-colors duration-200"
+              >
+                Watch
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex justify-between items-center">
+            {online === 'connecting' ? (
+              <p className="text-gray-300 animate-pulse">Connecting to the relay…</p>
+            ) : (
+              <div>
+                <p className="text-gray-300">
+                  Room <span className="font-mono font-bold text-pink-300">{online.room}</span>, {online.color ? `playing ${online.color}` : 'spectating'}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {!online.connected ? 'Reconnecting…' : !online.color ? 'Live, read-only' : online.opponentConnected ? 'Opponent connected' : 'Waiting for the opponent'}
+                  {online.connected && ` · ${online.spectators} watching`}
+                </p>
+              </div>
+            )}
+            <button
+              onClick={onLeaveRoom}
+              className="px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-red-500 transition-colors duration-200"
+            >
+              Leave
+            </button>
+          </div>
+        )}
+      </div>
+
       <div className="space-y-4">
         <div className="bg-gray-800 p-3 rounded-lg shadow-xl border-t-4 border-gray-700">
           <div className="font-bold text-lg flex justify-between items-center">
             <span className="text-gray-300">Black Player</span>
-            <span className="text-red-400 font-mono text-xl">+{blackMaterial}</span>
+            <div className="flex items-center space-x-2">
+              <span className="text-red-400 font-mono text-xl">+{blackMaterial}</span>
+              {renderClock('black')}
+            </div>
           </div>
           <div className="text-2xl text-gray-400 h-8 flex items-center space-x-1">
             {capturedPieces.white.sort(sortPieces).map((p, i) => 
@@ -71,17 +367,61 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ turn, capturedPieces, boardState,
         
         <div className="text-center p-3 rounded-lg bg-gray-800 shadow-lg">
           <p className="text-sm text-gray-400">
-            {gameStatus === 'active' ? 'Current Turn:' : 'Game Over'}
+            {gameOver ? 'Game Over' : 'Current Turn:'}
           </p>
-          <h2 className={`text-2xl font-bold ${gameStatus !== 'active' ? 'text-yellow-400' : ''}`}>
-            {gameStatus === 'active' ? turn.toUpperCase() : gameStatus}
+          <h2 className={`text-2xl font-bold ${gameOver ? 'text-yellow-400' : ''}`}>
+            {gameOver ? gameOver.title : turn.toUpperCase()}
           </h2>
+          {gameOver && <p className="text-sm text-gray-300">{gameOver.reason}</p>}
+          {gameStatus.state === 'check' && <p className="text-sm font-bold text-red-400">Check!</p>}
+          {isComputerThinking && <p className="text-sm text-pink-300 animate-pulse">Computer is thinking…</p>}
         </div>
+
+        {!gameOver && (drawOfferedBy ? (
+          <div className="p-3 rounded-lg bg-gray-800 shadow-lg text-center space-y-2">
+            <p className="text-sm text-gray-300">{drawOfferedBy === 'white' ? 'White' : 'Black'} offers a draw</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={onAcceptDraw}
+                className="flex-1 px-3 py-1 bg-green-600 text-white font-bold rounded-lg hover:bg-green-500 transition-colors duration-200"
+              >
+                Accept
+              </button>
+              <button
+                onClick={onDeclineDraw}
+                className="flex-1 px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors duration-200"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex space-x-2 text-sm">
+            <button
+              onClick={onOfferDraw}
+              disabled={canRedo || turn === computerColor || !!online}
+              title="Offer your opponent a draw"
+              className="flex-1 px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 disabled:opacity-40 transition-colors duration-200"
+            >
+              Offer Draw
+            </button>
+            <button
+              onClick={onResign}
+              disabled={canRedo || !!online}
+              className="flex-1 px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-red-500 disabled:opacity-40 transition-colors duration-200"
+            >
+              Resign
+            </button>
+          </div>
+        ))}
         
         <div className="bg-gray-800 p-3 rounded-lg shadow-xl border-b-4 border-gray-700">
           <div className="font-bold text-lg flex justify-between items-center">
             <span className="text-white">White Player</span>
-            <span className="text-red-400 font-mono text-xl">+{whiteMaterial}</span>
+            <div className="flex items-center space-x-2">
+              <span className="text-red-400 font-mono text-xl">+{whiteMaterial}</span>
+              {renderClock('white')}
+            </div>
           </div>
           <div className="text-2xl text-gray-400 h-8 flex items-center space-x-1">
              {capturedPieces.black.sort(sortPieces).map((p, i) => 
@@ -91,34 +431,114 @@ const InfoPanel: React.FC<InfoPanelProps> = ({ turn, capturedPieces, boardState,
         </div>
       </div>
 
+      <MoveHistory
+        history={history}
+        currentPly={currentPly}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        onSelectPly={onSelectPly}
+      />
+
+      <AnalysisPanel
+        isAvailable={isAnalysisAvailable}
+        isAnalysing={isAnalysing}
+        onAnalysingChange={onAnalysingChange}
+        lineCount={analysisLines}
+        onLineCountChange={onAnalysisLinesChange}
+        analysis={analysis}
+        turn={turn}
+        onPreviewMove={onPreviewMove}
+      />
+
       <h2 className="text-lg font-bold text-center text-gray-300 mt-4 mb-2">Volumetric Layers (Click to Play)</h2>
       <div className="grid grid-cols-2 gap-3 p-1">
-        {Array.from({ length: 8 }).map((_, z) => (
+        {Array.from({ length: boardState.length }).map((_, z) => (
           <LayerCanvas
             key={z}
             zLayer={z}
             boardState={boardState}
+            variant={variant}
             selectedPiece={selectedPiece}
             validMoves={validMoves}
             onSquareClick={onSquareClick}
             onSquareHover={onSquareHover}
+            draggedFrom={shownDrag?.from ?? null}
+            onPieceDragStart={startLayerDrag}
           />
         ))}
       </div>
+      {shownDrag && (
+        <div
+          className="fixed z-50 pointer-events-none select-none font-serif leading-none"
+          style={{
+            left: shownDrag.x,
+            top: shownDrag.y,
+            transform: 'translate(-50%, -50%)',
+            fontSize: CELL_SIZE_2D * 0.8,
+            color: shownDrag.piece.color === 'white' ? '#f3f4f6' : '#9ca3af',
+            transition: shownDrag.returning ? `left ${DROP_RETURN_MS}ms ease-out, top ${DROP_RETURN_MS}ms ease-out` : undefined
+          }}
+        >
+          {getPieceSymbol(shownDrag.piece.type, shownDrag.piece.color)}
+        </div>
+      )}
       
       <div className="mt-auto pt-4 space-y-2">
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={pastedPosition}
+            onChange={(e) => setPastedPosition(e.target.value)}
+            placeholder="Paste a position string"
+            className="flex-1 min-w-0 px-2 py-1 bg-gray-800 text-gray-200 font-mono text-xs rounded-lg border border-gray-700 focus:outline-none focus:border-pink-400"
+          />
+          <button
+            onClick={() => onLoadPosition(pastedPosition)}
+            disabled={!pastedPosition.trim()}
+            className="px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 disabled:opacity-40 transition-colors duration-200"
+          >
+            Start
+          </button>
+          <button
+            onClick={() => navigator.clipboard.writeText(positionString)}
+            title="Copy the current position string"
+            className="px-3 py-1 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors duration-200"
+          >
+            Copy
+          </button>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={onExportGame}
+            className="flex-1 px-4 py-2 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition-colors duration-200"
+          >
+            Export Game
+          </button>
+          <label className="flex-1 text-center px-4 py-2 bg-gray-700 text-white font-bold rounded-lg cursor-pointer hover:bg-gray-600 transition-colors duration-200">
+            Import Game
+            <input
+              type="file"
+              className="hidden"
+              accept=".vpgn,.txt"
+              onChange={handleFileChange(onImportGame)}
+            />
+          </label>
+        </div>
         <label className="block w-full text-center px-4 py-2 bg-pink-500 text-white font-bold rounded-lg cursor-pointer hover:bg-pink-600 transition-colors duration-200">
           Load Custom 3D Model (.obj)
           <input 
             type="file" 
             className="hidden" 
             accept=".obj"
-            onChange={handleFileChange} 
+            onChange={handleFileChange(onCustomModelLoad)} 
           />
         </label>
         <div className="text-center text-xs text-gray-500">
-          <p>Use 2D boards to select pieces and make moves.</p>
-          <p>Use mouse on 3D board to rotate/zoom for visualization.</p>
+          <p>Click or drag pieces on the 2D layers or the 3D board to move.</p>
+          <p>Drag the 3D view to orbit, right-drag or drag two fingers to pan, and scroll or pinch to zoom. Hold Shift while dragging a piece in 3D to move it between layers.</p>
+          <p>Open Layers in the 3D view to spread the layers apart, hide or fade them, or focus the layer under the pointer here.</p>
         </div>
       </div>
     </div>
@@ -1,18 +1,53 @@
 import React, { useRef, useEffect, useState } from 'react';
-import type { Piece, Move, BoardState } from '../types';
-import { BOARD_SIZE_2D, CELL_SIZE_2D, PIECE_SYMBOLS } from '../types';
+import type { Piece, Move, BoardState, Square, Variant } from '../types';
+import { CELL_SIZE_2D } from '../types';
+import { enPassantCaptureSquare } from '../lib/gameLogic';
+import { PIECE_SYMBOLS } from '../lib/pieces';
 
 interface LayerCanvasProps {
   zLayer: number;
   boardState: BoardState;
+  variant: Variant;
   selectedPiece: Piece | null;
   validMoves: Move[];
   onSquareClick: (x: number, y: number, z: number) => void;
   onSquareHover: (coords: { x: number; y: number; z: number } | null) => void;
+  // The cell a piece is being dragged from, on any layer.
+  draggedFrom: Square | null;
+  onPieceDragStart: (square: Square, clientX: number, clientY: number) => void;
 }
 
-const LayerCanvas: React.FC<LayerCanvasProps> = ({ zLayer, boardState, selectedPiece, validMoves, onSquareClick, onSquareHover }) => {
+// A press that moves the pointer further than this, in pixels, is a drag
+// rather than a click.
+export const DRAG_TOLERANCE = 5;
+
+// The cell of whichever layer canvas is at a point on the page.
+export function layerSquareAt(clientX: number, clientY: number): Square | null {
+  const canvas = document.elementFromPoint(clientX, clientY)?.closest('canvas[data-layer]');
+  if (!(canvas instanceof HTMLCanvasElement)) return null;
+  const boardSize = canvas.width / CELL_SIZE_2D;
+  const rect = canvas.getBoundingClientRect();
+  const x = Math.floor((clientX - rect.left) / CELL_SIZE_2D);
+  const y = boardSize - 1 - Math.floor((clientY - rect.top) / CELL_SIZE_2D);
+  const inBounds = x >= 0 && x < boardSize && y >= 0 && y < boardSize;
+  return inBounds ? { x, y, z: Number(canvas.dataset.layer) } : null;
+}
+
+// Where the center of a cell is on the page.
+export function layerCellCenter(square: Square): { x: number; y: number } | null {
+  const canvas = document.querySelector(`canvas[data-layer="${square.z}"]`);
+  if (!(canvas instanceof HTMLCanvasElement)) return null;
+  const boardSize = canvas.width / CELL_SIZE_2D;
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: rect.left + (square.x + 0.5) * CELL_SIZE_2D,
+    y: rect.top + (boardSize - 1 - square.y + 0.5) * CELL_SIZE_2D
+  };
+}
+
+const LayerCanvas: React.FC<LayerCanvasProps> = ({ zLayer, boardState, variant, selectedPiece, validMoves, onSquareClick, onSquareHover, draggedFrom, onPieceDragStart }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pressedAtRef = useRef<{ x: number; y: number } | null>(null);
   const [isLayerHovered, setIsLayerHovered] = useState(false);
   const [hoveredSquare, setHoveredSquare] = useState<{ x: number; y: number } | null>(null);
 
@@ -23,13 +58,14 @@ const LayerCanvas: React.FC<LayerCanvasProps> = ({ zLayer, boardState, selectedP
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const size = BOARD_SIZE_2D * CELL_SIZE_2D;
+    const boardSize = boardState.length;
+    const size = boardSize * CELL_SIZE_2D;
     canvas.width = size;
     canvas.height = size;
 
-    for (let y = 0; y < BOARD_SIZE_2D; y++) {
-      for (let x = 0; x < BOARD_SIZE_2D; x++) {
-        const canvasRow = BOARD_SIZE_2D - 1 - y;
+    for (let y = 0; y < boardSize; y++) {
+      for (let x = 0; x < boardSize; x++) {
+        const canvasRow = boardSize - 1 - y;
         const piece = boardState[x][y][zLayer];
 
         // Draw Background
@@ -68,32 +104,65 @@ const LayerCanvas: React.FC<LayerCanvasProps> = ({ zLayer, boardState, selectedP
           }
         }
 
-        // Draw Pieces
+        // Mark the pawn an en passant capture would take
+        const isEnPassantVictim = validMoves.some(m => {
+          if (!m.enPassant) return false;
+          const captured = enPassantCaptureSquare(m, variant);
+          return captured.x === x && captured.y === y && captured.z === zLayer;
+        });
+        if (isEnPassantVictim) {
+          const centerX = x * CELL_SIZE_2D + CELL_SIZE_2D / 2;
+          const centerY = canvasRow * CELL_SIZE_2D + CELL_SIZE_2D / 2;
+          ctx.beginPath();
+          ctx.setLineDash([3, 3]);
+          ctx.strokeStyle = '#f87171'; // Red, dashed
+          ctx.lineWidth = CELL_SIZE_2D * 0.08;
+          ctx.arc(centerX, centerY, CELL_SIZE_2D * 0.45, 0, 2 * Math.PI);
+          ctx.stroke();
+          ctx.setLineDash([]);
+        }
+
+        // Draw Pieces, faintly where one is being dragged from
         if (piece) {
+          const isDragged = draggedFrom && draggedFrom.x === x && draggedFrom.y === y && draggedFrom.z === zLayer;
           const symbol = PIECE_SYMBOLS[piece.color][piece.type];
           ctx.font = `${CELL_SIZE_2D * 0.8}px serif`;
           ctx.textAlign = 'center';
           ctx.textBaseline = 'middle';
           ctx.fillStyle = piece.color === 'white' ? '#f3f4f6' : '#9ca3af';
+          ctx.globalAlpha = isDragged ? 0.3 : 1;
           const centerX = x * CELL_SIZE_2D + CELL_SIZE_2D / 2;
           const centerY = canvasRow * CELL_SIZE_2D + CELL_SIZE_2D / 2;
           ctx.fillText(symbol, centerX, centerY + CELL_SIZE_2D * 0.05);
+          ctx.globalAlpha = 1;
         }
       }
     }
-  }, [boardState, selectedPiece, validMoves, zLayer, hoveredSquare]);
+  }, [boardState, variant, selectedPiece, validMoves, zLayer, hoveredSquare, draggedFrom]);
   
-  const getCoordsFromEvent = (event: React.MouseEvent<HTMLCanvasElement>): {x: number, y: number} | null => {
+  const getCoordsFromEvent = (event: React.MouseEvent<HTMLCanvasElement> | React.PointerEvent<HTMLCanvasElement>): {x: number, y: number} | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
     const rect = canvas.getBoundingClientRect();
     const x = Math.floor((event.clientX - rect.left) / CELL_SIZE_2D);
     const canvasY = Math.floor((event.clientY - rect.top) / CELL_SIZE_2D);
-    const y = BOARD_SIZE_2D - 1 - canvasY;
+    const y = boardState.length - 1 - canvasY;
     return { x, y };
   }
 
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    pressedAtRef.current = { x: event.clientX, y: event.clientY };
+    const coords = getCoordsFromEvent(event);
+    if (coords && boardState[coords.x]?.[coords.y]?.[zLayer]) {
+      onPieceDragStart({ ...coords, z: zLayer }, event.clientX, event.clientY);
+    }
+  };
+
   const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    // The end of a drag is handled as a drop, not as a click.
+    const pressedAt = pressedAtRef.current;
+    pressedAtRef.current = null;
+    if (pressedAt && Math.hypot(event.clientX - pressedAt.x, event.clientY - pressedAt.y) > DRAG_TOLERANCE) return;
     const coords = getCoordsFromEvent(event);
     if(coords) {
         onSquareClick(coords.x, coords.y, zLayer);
@@ -125,9 +194,11 @@ const LayerCanvas: React.FC<LayerCanvasProps> = ({ zLayer, boardState, selectedP
       <div className="text-xs font-mono text-center w-full py-0.5 bg-gray-800 text-gray-400">Layer Z={zLayer}</div>
       <canvas 
         ref={canvasRef} 
+        data-layer={zLayer}
+        onPointerDown={handlePointerDown}
         onClick={handleClick} 
         onMouseMove={handleMouseMove}
-        className="cursor-pointer" />
+        className="cursor-pointer touch-none" />
     </div>
   );
 };
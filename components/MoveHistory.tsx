@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+import type { MoveRecord } from '../lib/game';
+
+interface MoveHistoryProps {
+  history: MoveRecord[];
+  currentPly: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSelectPly: (ply: number) => void;
+}
+
+const MoveHistory: React.FC<MoveHistoryProps> = ({ history, currentPly, canUndo, canRedo, onUndo, onRedo, onSelectPly }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentPly]);
+
+  const rows: { number: number; white?: number; black?: number }[] = [];
+  history.forEach((record, index) => {
+    if (record.piece.color === 'white' || rows.length === 0) {
+      rows.push({ number: rows.length + 1 });
+    }
+    rows[rows.length - 1][record.piece.color] = index;
+  });
+
+  const renderPly = (index: number | undefined) => {
+    if (index === undefined) return <span className="flex-1" />;
+    const ply = index + 1;
+    const isCurrent = ply === currentPly;
+    return (
+      <button
+        ref={isCurrent ? activeRef : undefined}
+        onClick={() => onSelectPly(ply)}
+        className={`flex-1 text-left px-1 rounded font-mono truncate ${isCurrent ? 'bg-pink-500 text-white' : ply > currentPly ? 'text-gray-500 hover:bg-gray-700' : 'text-gray-200 hover:bg-gray-700'}`}
+      >
+        {history[index].notation}
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 p-3 rounded-lg shadow-xl">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="font-bold text-gray-300">Moves</h2>
+        <div className="flex space-x-1">
+          <button onClick={() => onSelectPly(0)} disabled={!canUndo} title="Start (Home)" className="px-2 py-0.5 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">⏮</button>
+          <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z / ←)" className="px-2 py-0.5 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">↶</button>
+          <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Y / →)" className="px-2 py-0.5 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">↷</button>
+          <button onClick={() => onSelectPly(history.length)} disabled={!canRedo} title="Latest (End)" className="px-2 py-0.5 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-40">⏭</button>
+        </div>
+      </div>
+      <div className="max-h-40 overflow-y-auto text-sm space-y-0.5">
+        {rows.length === 0 && <p className="text-gray-500 text-center">No moves yet.</p>}
+        {rows.map(row => (
+          <div key={row.number} className="flex items-center space-x-1">
+            <span className="w-8 text-gray-500 font-mono">{row.number}.</span>
+            {row.white === undefined ? <span className="flex-1 px-1 text-gray-500">…</span> : renderPly(row.white)}
+            {renderPly(row.black)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MoveHistory;
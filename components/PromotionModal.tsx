@@ -1,6 +1,7 @@
 import React from 'react';
 import type { Piece } from '../types';
-import { PIECE_SYMBOLS } from '../types';
+import { PROMOTION_PIECES } from '../lib/gameLogic';
+import { PIECE_SYMBOLS } from '../lib/pieces';
 
 interface PromotionModalProps {
   color: 'white' | 'black';
@@ -8,14 +9,12 @@ interface PromotionModalProps {
 }
 
 const PromotionModal: React.FC<PromotionModalProps> = ({ color, onPromote }) => {
-  const promotionPieces: Piece['type'][] = ['Q', 'R', 'B', 'N'];
-
   return (
     <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center z-50">
       <div className="bg-gray-800 p-8 rounded-lg shadow-2xl flex flex-col items-center space-y-4">
         <h2 className="text-2xl font-bold text-white">Promote Pawn</h2>
         <div className="flex space-x-4">
-          {promotionPieces.map((pieceType) => (
+          {PROMOTION_PIECES.map((pieceType) => (
             <button
               key={pieceType}
               onClick={() => onPromote(pieceType)}
@@ -1,27 +1,215 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as THREE from 'three';
-import type { Piece, Move, BoardState } from '../types';
-import { create3DBoard, createPieceMesh, getCellWorldPosition } from '../lib/threeUtils';
-import { CELL_SIZE, SIZE, BOARD_BOUNDS, CENTER_OFFSET } from '../types';
+import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
+import type { Piece, Move, BoardState, Square, Variant } from '../types';
+import { boardBounds, create3DBoard, createPieceMesh, disposeObject, getCellWorldPosition, getPieceWorldPosition, layerWorldHeight, setBoardLayerOpacity, setBoardLayerSpacing } from '../lib/threeUtils';
+import { diffBoards } from '../lib/boardDiff';
+import { enPassantCaptureSquare } from '../lib/gameLogic';
+import { CELL_SIZE } from '../types';
 
 interface ThreeSceneProps {
   boardState: BoardState;
+  variant: Variant;
   selectedPiece: Piece | null;
   validMoves: Move[];
   pieceModels: Record<string, THREE.Object3D> | null;
   isLoading: boolean;
   loadingMessage: string;
   hoveredSquare: { x: number; y: number; z: number } | null;
+  previewMove: Move | null;
+  // The side to move, which the camera can follow.
+  turn: Piece['color'];
+  // The layer hovered on the 2D layer boards, which focus mode isolates.
+  focusedLayer: number | null;
+  onSquareClick: (x: number, y: number, z: number) => void;
+  onSquareHover: (square: Square | null) => void;
+  // Returns whether the piece may be dragged.
+  onPieceDragStart: (x: number, y: number, z: number) => boolean;
+  // Returns whether the drop made a move.
+  onPieceDrop: (from: Square, to: Square) => boolean;
 }
 
-const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, validMoves, pieceModels, isLoading, loadingMessage, hoveredSquare }) => {
+// A press that moves the pointer further than this, in pixels, turns the
+// camera instead of clicking.
+const CLICK_TOLERANCE = 5;
+
+type CameraView = Piece['color'] | 'top' | 'isometric';
+
+// Where each preset view looks from, as a direction from the board centre.
+// White's ranks start at the far end of the world z axis, so its side of the
+// board faces -z.
+const CAMERA_VIEWS: Record<CameraView, THREE.Vector3> = {
+  white: new THREE.Vector3(0, 0.6, -1),
+  black: new THREE.Vector3(0, 0.6, 1),
+  top: new THREE.Vector3(0, 1, -0.001),
+  isometric: new THREE.Vector3(1, 1, 1),
+};
+
+const VIEW_BUTTONS: { view: CameraView; label: string; title: string }[] = [
+  { view: 'white', label: 'White', title: "View from White's side" },
+  { view: 'black', label: 'Black', title: "View from Black's side" },
+  { view: 'top', label: 'Top', title: 'View the layers from above' },
+  { view: 'isometric', label: 'Iso', title: 'View the cube from a corner' },
+];
+
+// Preset views keep the camera this many board widths from the centre.
+const VIEW_DISTANCE = 2.15;
+
+// How long the camera takes to fly to a preset view.
+const VIEW_FLIGHT_MS = 600;
+
+// The most the layers can be spread apart, in cell heights from centre to
+// centre.
+const MAX_LAYER_SPACING = 3;
+
+// Opacity of the layers around the focused one in focus mode.
+const GHOST_OPACITY = 0.08;
+
+// A layer as the player set it up in the layers panel.
+interface LayerSetting {
+  visible: boolean;
+  opacity: number;
+}
+
+const DEFAULT_LAYER_SETTING: LayerSetting = { visible: true, opacity: 1 };
+
+// How a layer is drawn. Only the pieces and move targets of pickable layers
+// can be clicked or dragged.
+interface LayerLook {
+  visible: boolean;
+  opacity: number;
+  pickable: boolean;
+}
+
+// How long a piece takes to move, and a captured one to fade away.
+const PIECE_MOVE_MS = 350;
+
+const easeInOut = (t: number) => t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+// A piece mesh on the move: going to another cell, fading out when captured or
+// fading back in when a capture is taken back.
+interface PieceTween {
+  mesh: THREE.Object3D;
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  // How far the middle of the path bows out of the straight line.
+  arc: THREE.Vector3;
+  fade: 'in' | 'out' | null;
+  start: number;
+}
+
+// Leaps, moves that are not along a straight or diagonal line like the
+// knight's, arc through the axis they do not move along, and upwards if they
+// move along all three. Board x, y and z run along world x, z and y.
+const leapArc = (from: Square, to: Square) => {
+  const steps = [to.x - from.x, to.y - from.y, to.z - from.z].map(Math.abs);
+  const moving = steps.filter(step => step > 0);
+  if (moving.every(step => step === moving[0])) return new THREE.Vector3();
+  const height = CELL_SIZE * 0.8;
+  if (steps[0] === 0) return new THREE.Vector3(height, 0, 0);
+  if (steps[1] === 0) return new THREE.Vector3(0, 0, height);
+  return new THREE.Vector3(0, height, 0);
+};
+
+const setPieceOpacity = (mesh: THREE.Object3D, opacity: number) => {
+  mesh.traverse(child => {
+    if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
+      child.material.transparent = opacity < 1;
+      child.material.opacity = opacity;
+      child.material.depthWrite = opacity === 1;
+    }
+  });
+};
+
+// Piece meshes share their model's geometry but own their material.
+const disposePieceMesh = (mesh: THREE.Object3D) => {
+  mesh.removeFromParent();
+  mesh.traverse(child => {
+    if (child instanceof THREE.Mesh) child.material.dispose();
+  });
+};
+
+// Moves a tween on to `now`; returns whether it has finished. Fades go to or
+// from `opacity`, the opacity of the piece's layer.
+const stepPieceTween = (tween: PieceTween, now: number, opacity: number = 1) => {
+  const t = Math.min(1, (now - tween.start) / PIECE_MOVE_MS);
+  const eased = easeInOut(t);
+  tween.mesh.position.lerpVectors(tween.from, tween.to, eased).addScaledVector(tween.arc, Math.sin(Math.PI * eased));
+  if (tween.fade) setPieceOpacity(tween.mesh, (tween.fade === 'in' ? eased : 1 - eased) * opacity);
+  if (t === 1 && tween.fade === 'out') disposePieceMesh(tween.mesh);
+  return t === 1;
+};
+
+// How long a piece dropped on an illegal cell takes to slide back.
+const DROP_RETURN_MS = 200;
+
+// The board cell a picked object stands for: pieces carry their Piece and move
+// targets their cell in userData.
+const pickedSquare = (object: THREE.Object3D | null): Square | null => {
+  for (let current = object; current; current = current.parent) {
+    if (current.name.startsWith('piece_') || current.name.startsWith('cell_')) {
+      const { x, y, z } = current.userData;
+      return { x, y, z };
+    }
+  }
+  return null;
+};
+
+const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, variant, selectedPiece, validMoves, pieceModels, isLoading, loadingMessage, hoveredSquare, previewMove, turn, focusedLayer, onSquareClick, onSquareHover, onPieceDragStart, onPieceDrop }) => {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
+  const gridGroupRef = useRef<THREE.Group | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
+  const controlsRef = useRef<OrbitControls | null>(null);
+  const flyToRef = useRef<(view: CameraView) => void>(() => {});
   const piecesGroupRef = useRef<THREE.Group | null>(null);
   const movesGroupRef = useRef<THREE.Group | null>(null);
   const highlightsGroupRef = useRef<THREE.Group | null>(null);
+  const previewGroupRef = useRef<THREE.Group | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const pieceTweensRef = useRef<PieceTween[]>([]);
+  // The board and models the piece meshes show.
+  const shownPiecesRef = useRef<{ board: BoardState; models: Record<string, THREE.Object3D> } | null>(null);
+  const size = boardState.length;
+  const [isFollowingTurn, setIsFollowingTurn] = useState(false);
+  const [layerSpacing, setLayerSpacing] = useState(1);
+  const [layerSettings, setLayerSettings] = useState<LayerSetting[]>([]);
+  const [isFocusing, setIsFocusing] = useState(false);
+  const [isLayersPanelOpen, setIsLayersPanelOpen] = useState(false);
+
+  // In focus mode the focused layer shows in full and the others as ghosts.
+  const layerLooks = useMemo(() => Array.from({ length: size }, (_, z): LayerLook => {
+    const setting = layerSettings[z] ?? DEFAULT_LAYER_SETTING;
+    const isFocusActive = isFocusing && focusedLayer !== null;
+    if (isFocusActive && z === focusedLayer) return { visible: true, opacity: 1, pickable: true };
+    if (!setting.visible) return { visible: false, opacity: 0, pickable: false };
+    if (isFocusActive) return { visible: true, opacity: Math.min(setting.opacity, GHOST_OPACITY), pickable: false };
+    return { visible: true, opacity: setting.opacity, pickable: true };
+  }), [size, layerSettings, isFocusing, focusedLayer]);
+  const lookOf = (z: number) => layerLooks[z] ?? { ...DEFAULT_LAYER_SETTING, pickable: true };
+  // The scene's event handlers are set up once, so they call the latest props
+  // through these.
+  const onSquareClickRef = useRef(onSquareClick);
+  const onSquareHoverRef = useRef(onSquareHover);
+  const onPieceDragStartRef = useRef(onPieceDragStart);
+  const onPieceDropRef = useRef(onPieceDrop);
+  const validMovesRef = useRef(validMoves);
+  const sizeRef = useRef(boardState.length);
+  const layerSpacingRef = useRef(layerSpacing);
+  const lookOfRef = useRef(lookOf);
+  onSquareClickRef.current = onSquareClick;
+  onSquareHoverRef.current = onSquareHover;
+  onPieceDragStartRef.current = onPieceDragStart;
+  onPieceDropRef.current = onPieceDrop;
+  validMovesRef.current = validMoves;
+  sizeRef.current = boardState.length;
+  layerSpacingRef.current = layerSpacing;
+  lookOfRef.current = lookOf;
+
+  const finishPieceTweens = () => {
+    pieceTweensRef.current.forEach(tween => stepPieceTween(tween, Infinity, lookOf(tween.mesh.userData.z).opacity));
+    pieceTweensRef.current = [];
+  };
 
   // Effect for one-time scene and renderer setup
   useEffect(() => {
@@ -33,7 +221,7 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
     sceneRef.current = scene;
     
     const camera = new THREE.PerspectiveCamera(75, currentMount.clientWidth / currentMount.clientHeight, 0.1, 1000);
-    camera.position.set(70, 70, 70);
+    camera.position.copy(CAMERA_VIEWS.isometric).setLength(boardBounds(sizeRef.current) * VIEW_DISTANCE);
     camera.lookAt(0, 0, 0);
     cameraRef.current = camera;
 
@@ -55,8 +243,12 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
 
     const boardGroup = new THREE.Group();
     scene.add(boardGroup);
-    create3DBoard(boardGroup);
-    
+
+    const gridGroup = new THREE.Group();
+    gridGroup.name = 'BoardGrid';
+    boardGroup.add(gridGroup);
+    gridGroupRef.current = gridGroup;
+
     const piecesGroup = new THREE.Group();
     piecesGroup.name = 'ChessPieces';
     boardGroup.add(piecesGroup);
@@ -71,36 +263,200 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
     highlightsGroup.name = 'Highlights';
     boardGroup.add(highlightsGroup);
     highlightsGroupRef.current = highlightsGroup;
+
+    const previewGroup = new THREE.Group();
+    previewGroup.name = 'MovePreview';
+    boardGroup.add(previewGroup);
+    previewGroupRef.current = previewGroup;
     
-    let isDragging = false;
-    let previousMousePosition = { x: 0, y: 0 };
-    const onMouseDown = (e: MouseEvent) => { isDragging = true; previousMousePosition = { x: e.clientX, y: e.clientY }; };
-    const onMouseUp = () => { isDragging = false; };
-    const onMouseMove = (e: MouseEvent) => {
-        if (isDragging) {
-            const deltaX = e.clientX - previousMousePosition.x;
-            const deltaY = e.clientY - previousMousePosition.y;
-            boardGroup.rotation.y += deltaX * 0.005;
-            boardGroup.rotation.x += deltaY * 0.005;
-            previousMousePosition = { x: e.clientX, y: e.clientY };
+    // Picking: the nearest piece or move target under the pointer.
+    const raycaster = new THREE.Raycaster();
+    const pointer = new THREE.Vector2();
+    const aim = (e: MouseEvent) => {
+        const rect = renderer.domElement.getBoundingClientRect();
+        pointer.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+        raycaster.setFromCamera(pointer, camera);
+    };
+    const pick = (e: MouseEvent, groups: THREE.Object3D[] = [piecesGroup, movesGroup]): Square | null => {
+        aim(e);
+        for (const hit of raycaster.intersectObjects(groups, true)) {
+            const square = pickedSquare(hit.object);
+            if (square && lookOfRef.current(square.z).pickable) return square;
         }
+        return null;
     };
-    const onMouseLeave = () => {
-        isDragging = false;
+    let hovered: Square | null = null;
+    const setHovered = (square: Square | null) => {
+        if (hovered?.x === square?.x && hovered?.y === square?.y && hovered?.z === square?.z) return;
+        hovered = square;
+        onSquareHoverRef.current(square);
     };
-    const onWheel = (e: WheelEvent) => {
-        e.preventDefault();
-        const zoomFactor = 1.05;
-        if (e.deltaY > 0) camera.position.multiplyScalar(zoomFactor);
-        else camera.position.divideScalar(zoomFactor);
-        camera.lookAt(0,0,0);
+
+    // Dragging a piece: it snaps to the legal target nearest the pointer ray.
+    // Away from every target it slides in its own layer, or up and down its
+    // column while Shift is held. Dropped anywhere else, it slides back.
+    let pieceDrag: { from: Square; mesh: THREE.Object3D; home: THREE.Vector3; target: Square | null } | null = null;
+    let returning: { mesh: THREE.Object3D; from: THREE.Vector3; to: THREE.Vector3; start: number } | null = null;
+    const piecePosition = (square: Square) => getPieceWorldPosition(square.x, square.y, square.z, sizeRef.current, layerSpacingRef.current);
+    const dragPieceTo = (e: MouseEvent) => {
+        if (!pieceDrag) return;
+        const { from, mesh, home } = pieceDrag;
+        aim(e);
+        let target: Square | null = null;
+        let nearest = CELL_SIZE / 2;
+        for (const move of validMovesRef.current) {
+            if (move.from.x !== from.x || move.from.y !== from.y || move.from.z !== from.z) continue;
+            const distance = raycaster.ray.distanceToPoint(boardGroup.localToWorld(piecePosition(move)));
+            if (distance < nearest) {
+                nearest = distance;
+                target = { x: move.x, y: move.y, z: move.z };
+            }
+        }
+        pieceDrag.target = target;
+        setHovered(target);
+        if (target) {
+            mesh.position.copy(piecePosition(target));
+            return;
+        }
+        const point = new THREE.Vector3();
+        if (e.shiftKey) {
+            const height = boardBounds(sizeRef.current) * layerSpacingRef.current;
+            const bottom = boardGroup.localToWorld(new THREE.Vector3(home.x, home.y - height, home.z));
+            const top = boardGroup.localToWorld(new THREE.Vector3(home.x, home.y + height, home.z));
+            raycaster.ray.distanceSqToSegment(bottom, top, undefined, point);
+        } else {
+            const up = new THREE.Vector3(0, 1, 0).applyQuaternion(boardGroup.getWorldQuaternion(new THREE.Quaternion()));
+            const layer = new THREE.Plane().setFromNormalAndCoplanarPoint(up, boardGroup.localToWorld(home.clone()));
+            if (!raycaster.ray.intersectPlane(layer, point)) return;
+        }
+        mesh.position.copy(boardGroup.worldToLocal(point));
     };
-    
-    renderer.domElement.addEventListener('mousedown', onMouseDown);
-    renderer.domElement.addEventListener('mouseup', onMouseUp);
-    renderer.domElement.addEventListener('mouseleave', onMouseLeave);
-    renderer.domElement.addEventListener('mousemove', onMouseMove);
-    renderer.domElement.addEventListener('wheel', onWheel, { passive: false });
+    const endPieceDrag = (dropped: boolean) => {
+        if (!pieceDrag) return;
+        const { from, mesh, home, target } = pieceDrag;
+        pieceDrag = null;
+        renderer.domElement.style.cursor = '';
+        if (dropped && target && onPieceDropRef.current(from, target)) return;
+        returning = { mesh, from: mesh.position.clone(), to: home, start: performance.now() };
+    };
+
+    // A press on a piece the player may move selects it and holds the camera
+    // still, so pulling it drags the piece; any other press turns the camera.
+    let pressedAt: { x: number; y: number } | null = null;
+    let pressedPiece: Square | null = null;
+    const onPointerDown = (e: PointerEvent) => {
+        if (!e.isPrimary) return;
+        pressedAt = { x: e.clientX, y: e.clientY };
+        const square = pick(e, [piecesGroup]);
+        pressedPiece = square && onPieceDragStartRef.current(square.x, square.y, square.z) ? square : null;
+        if (pressedPiece) {
+            controls.enabled = false;
+            renderer.domElement.setPointerCapture(e.pointerId);
+        }
+    };
+    const onPointerUp = (e: PointerEvent) => {
+        if (!e.isPrimary || !pressedAt) return;
+        const isClick = Math.hypot(e.clientX - pressedAt.x, e.clientY - pressedAt.y) <= CLICK_TOLERANCE;
+        pressedAt = null;
+        pressedPiece = null;
+        controls.enabled = true;
+        if (pieceDrag) {
+            endPieceDrag(true);
+            return;
+        }
+        if (!isClick) return;
+        const square = pick(e);
+        if (square) onSquareClickRef.current(square.x, square.y, square.z);
+    };
+    const onPointerMove = (e: PointerEvent) => {
+        if (!e.isPrimary) return;
+        if (!pressedAt) {
+            setHovered(pick(e));
+            renderer.domElement.style.cursor = hovered ? 'pointer' : '';
+            return;
+        }
+        if (pieceDrag) {
+            dragPieceTo(e);
+            return;
+        }
+        if (pressedPiece && Math.hypot(e.clientX - pressedAt.x, e.clientY - pressedAt.y) > CLICK_TOLERANCE) {
+            const from = pressedPiece;
+            const mesh = piecesGroup.getObjectByName(`piece_${from.x}_${from.y}_${from.z}`);
+            if (!mesh) return;
+            returning = null;
+            pieceDrag = { from, mesh, home: piecePosition(from), target: null };
+            renderer.domElement.style.cursor = 'grabbing';
+            dragPieceTo(e);
+        }
+    };
+    const onPointerLeave = () => {
+        if (pieceDrag || pressedPiece) return;
+        setHovered(null);
+    };
+    const onPointerCancel = () => {
+        pressedAt = null;
+        pressedPiece = null;
+        controls.enabled = true;
+        endPieceDrag(false);
+        setHovered(null);
+    };
+
+    // Registered before the orbit controls' own listeners, so a press on a
+    // piece can switch them off before they see it.
+    renderer.domElement.addEventListener('pointerdown', onPointerDown);
+    renderer.domElement.addEventListener('pointerup', onPointerUp);
+    renderer.domElement.addEventListener('pointermove', onPointerMove);
+    renderer.domElement.addEventListener('pointerleave', onPointerLeave);
+    renderer.domElement.addEventListener('pointercancel', onPointerCancel);
+
+    // Orbit, zoom and pan with the mouse (left, wheel and right button) or
+    // touch (one finger, pinch and two fingers), easing out after release.
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.enableDamping = true;
+    controls.dampingFactor = 0.08;
+    controls.screenSpacePanning = true;
+    controls.minDistance = CELL_SIZE * 3;
+    controlsRef.current = controls;
+
+    // Keeps the point the camera orbits inside the board, moving the camera
+    // along so panning past the edge stops rather than turning the view.
+    const keepTargetOnBoard = () => {
+        const half = boardBounds(sizeRef.current) / 2;
+        const height = half * layerSpacingRef.current;
+        const clamped = controls.target.clone().clamp(new THREE.Vector3(-half, -height, -half), new THREE.Vector3(half, height, half));
+        camera.position.add(clamped.clone().sub(controls.target));
+        controls.target.copy(clamped);
+    };
+
+    // Flying to a preset view: the camera swings around the board centre,
+    // easing in and out, until the player takes over.
+    let flight: { from: THREE.Spherical; to: THREE.Spherical; target: THREE.Vector3; start: number } | null = null;
+    flyToRef.current = (view: CameraView) => {
+        const from = new THREE.Spherical().setFromVector3(camera.position.clone().sub(controls.target));
+        const to = new THREE.Spherical().setFromVector3(CAMERA_VIEWS[view].clone().setLength(boardBounds(sizeRef.current) * VIEW_DISTANCE));
+        // Swing the short way round.
+        if (to.theta - from.theta > Math.PI) to.theta -= 2 * Math.PI;
+        if (from.theta - to.theta > Math.PI) to.theta += 2 * Math.PI;
+        flight = { from, to, target: controls.target.clone(), start: performance.now() };
+    };
+    const flyCamera = () => {
+        if (!flight) return;
+        const t = Math.min(1, (performance.now() - flight.start) / VIEW_FLIGHT_MS);
+        const eased = easeInOut(t);
+        const { from, to } = flight;
+        const at = new THREE.Spherical(
+            from.radius + (to.radius - from.radius) * eased,
+            from.phi + (to.phi - from.phi) * eased,
+            from.theta + (to.theta - from.theta) * eased
+        );
+        controls.target.lerpVectors(flight.target, new THREE.Vector3(), eased);
+        camera.position.setFromSpherical(at).add(controls.target);
+        if (t === 1) flight = null;
+    };
+    const onControlsStart = () => {
+        flight = null;
+    };
+    controls.addEventListener('start', onControlsStart);
     
     const handleResize = () => {
         if (!currentMount || !cameraRef.current || !rendererRef.current) return;
@@ -112,6 +468,16 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
 
     const animate = () => {
       requestAnimationFrame(animate);
+      const now = performance.now();
+      pieceTweensRef.current = pieceTweensRef.current.filter(tween => !stepPieceTween(tween, now, lookOfRef.current(tween.mesh.userData.z).opacity));
+      flyCamera();
+      controls.update();
+      keepTargetOnBoard();
+      if (returning) {
+        const t = Math.min(1, (performance.now() - returning.start) / DROP_RETURN_MS);
+        returning.mesh.position.lerpVectors(returning.from, returning.to, 1 - (1 - t) ** 2);
+        if (t === 1) returning = null;
+      }
       if (sceneRef.current && cameraRef.current) {
         renderer.render(sceneRef.current, cameraRef.current);
       }
@@ -120,11 +486,14 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
 
     return () => {
       window.removeEventListener('resize', handleResize);
-      renderer.domElement.removeEventListener('mousedown', onMouseDown);
-      renderer.domElement.removeEventListener('mouseup', onMouseUp);
-      renderer.domElement.removeEventListener('mouseleave', onMouseLeave);
-      renderer.domElement.removeEventListener('mousemove', onMouseMove);
-      renderer.domElement.removeEventListener('wheel', onWheel);
+      renderer.domElement.removeEventListener('pointerdown', onPointerDown);
+      renderer.domElement.removeEventListener('pointerup', onPointerUp);
+      renderer.domElement.removeEventListener('pointermove', onPointerMove);
+      renderer.domElement.removeEventListener('pointerleave', onPointerLeave);
+      renderer.domElement.removeEventListener('pointercancel', onPointerCancel);
+      controls.removeEventListener('start', onControlsStart);
+      controls.dispose();
+      controlsRef.current = null;
       if (currentMount && renderer.domElement) {
         currentMount.removeChild(renderer.domElement);
       }
@@ -132,22 +501,105 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
     };
   }, []);
 
-  // Sync pieces with boardState
+  // Rebuild the grid when the board size changes
+  useEffect(() => {
+    const gridGroup = gridGroupRef.current;
+    if (!gridGroup) return;
+    while (gridGroup.children.length) disposeObject(gridGroup.children[0]);
+    create3DBoard(gridGroup, size, layerSpacingRef.current);
+  }, [size]);
+
+  // Spread the layers apart without rebuilding them
+  useEffect(() => {
+    const gridGroup = gridGroupRef.current;
+    if (!gridGroup) return;
+    setBoardLayerSpacing(gridGroup, size, layerSpacing);
+    if (controlsRef.current) controlsRef.current.maxDistance = boardBounds(size) * Math.max(layerSpacing, 1) * VIEW_DISTANCE * 2;
+  }, [size, layerSpacing]);
+
+  // Swing round to the side to move after every move while following it.
+  useEffect(() => {
+    if (isFollowingTurn) flyToRef.current(turn);
+  }, [turn, isFollowingTurn]);
+
+  // Sync pieces with boardState. The meshes stay from board to board: pieces
+  // that moved go to their new cells, captured ones fade out and ones that
+  // come back fade in. New models or a new board size rebuild the lot. Layer
+  // spacing changes move the meshes in the effect after this one.
   useEffect(() => {
     if (!pieceModels) return;
     const piecesGroup = piecesGroupRef.current;
     if (!piecesGroup) return;
 
-    while (piecesGroup.children.length) piecesGroup.remove(piecesGroup.children[0]);
-    
-    boardState.forEach(plane => plane.forEach(row => row.forEach(piece => {
-      if (piece) {
-        const mesh = createPieceMesh(piece, pieceModels);
+    // Whatever is still on the move from the last change gets there at once.
+    finishPieceTweens();
+    const shown = shownPiecesRef.current;
+    shownPiecesRef.current = { board: boardState, models: pieceModels };
+
+    if (!shown || shown.models !== pieceModels || shown.board.length !== size) {
+      while (piecesGroup.children.length) disposePieceMesh(piecesGroup.children[0]);
+      boardState.forEach(plane => plane.forEach(row => row.forEach(piece => {
+        if (piece) piecesGroup.add(createPieceMesh(piece, pieceModels, size, layerSpacing));
+      })));
+      return;
+    }
+
+    const { moved, removed, added } = diffBoards(shown.board, boardState);
+    const meshAt = (square: Square) => piecesGroup.getObjectByName(`piece_${square.x}_${square.y}_${square.z}`);
+    // Every mesh is looked up before any of them is renamed.
+    const movedMeshes = moved.map(({ from }) => meshAt(from));
+    const removedMeshes = removed.map(meshAt);
+    const now = performance.now();
+    const tweens: PieceTween[] = [];
+
+    removedMeshes.forEach(mesh => {
+      if (!mesh) return;
+      mesh.name = 'captured_piece';
+      const to = mesh.position.clone();
+      to.y += CELL_SIZE * 0.5;
+      tweens.push({ mesh, from: mesh.position.clone(), to, arc: new THREE.Vector3(), fade: 'out', start: now });
+    });
+    moved.forEach(({ from, piece }, i) => {
+      let mesh = movedMeshes[i];
+      const position = mesh?.position.clone() ?? getPieceWorldPosition(from.x, from.y, from.z, size, layerSpacing);
+      if (!mesh || mesh.userData.type !== piece.type) {
+        // A promoting pawn turns into its new piece as it moves.
+        if (mesh) disposePieceMesh(mesh);
+        mesh = createPieceMesh(piece, pieceModels, size, layerSpacing);
         piecesGroup.add(mesh);
       }
-    })));
+      mesh.name = `piece_${piece.x}_${piece.y}_${piece.z}`;
+      mesh.userData = piece;
+      tweens.push({ mesh, from: position, to: getPieceWorldPosition(piece.x, piece.y, piece.z, size, layerSpacing), arc: leapArc(from, piece), fade: null, start: now });
+    });
+    added.forEach(piece => {
+      const mesh = createPieceMesh(piece, pieceModels, size, layerSpacing);
+      setPieceOpacity(mesh, 0);
+      piecesGroup.add(mesh);
+      tweens.push({ mesh, from: mesh.position.clone(), to: mesh.position.clone(), arc: new THREE.Vector3(), fade: 'in', start: now });
+    });
+    // Pieces that stayed put but are off their cell, like a pawn dropped on
+    // its promotion cell whose promotion was then abandoned, slide back.
+    const tweened = new Set(tweens.map(tween => tween.mesh));
+    piecesGroup.children.forEach(mesh => {
+      if (tweened.has(mesh)) return;
+      const { x, y, z } = mesh.userData;
+      const home = getPieceWorldPosition(x, y, z, size, layerSpacing);
+      if (mesh.position.equals(home)) return;
+      tweens.push({ mesh, from: mesh.position.clone(), to: home, arc: new THREE.Vector3(), fade: null, start: now });
+    });
+    pieceTweensRef.current = tweens;
   }, [boardState, pieceModels]);
 
+  // Spread the pieces along with their layers.
+  useEffect(() => {
+    finishPieceTweens();
+    piecesGroupRef.current?.children.forEach(mesh => {
+      const { x, y, z } = mesh.userData;
+      mesh.position.copy(getPieceWorldPosition(x, y, z, size, layerSpacing));
+    });
+  }, [layerSpacing]);
+
   // Highlight selected piece
   useEffect(() => {
     piecesGroupRef.current?.children.forEach(child => {
@@ -159,22 +611,37 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
             }
         });
     });
-  }, [selectedPiece]);
+  }, [selectedPiece, boardState, pieceModels]);
 
   // Visualize valid moves
   useEffect(() => {
     const movesGroup = movesGroupRef.current;
     if (!movesGroup) return;
 
-    while (movesGroup.children.length) movesGroup.remove(movesGroup.children[0]);
+    while (movesGroup.children.length) disposeObject(movesGroup.children[0]);
 
     const moveGeom = new THREE.SphereGeometry(CELL_SIZE * 0.15, 8, 8);
     const captureGeom = new THREE.TorusGeometry(CELL_SIZE * 0.4, CELL_SIZE * 0.05, 8, 16);
     const moveMat = new THREE.MeshBasicMaterial({ color: 0x4ade80, transparent: true, opacity: 0.7, depthWrite: false });
     const captureMat = new THREE.MeshBasicMaterial({ color: 0xf87171, transparent: true, opacity: 0.7, depthWrite: false });
+    const enPassantMat = new THREE.MeshBasicMaterial({ color: 0xf87171, transparent: true, opacity: 0.35, depthWrite: false });
+    // Invisible cell-sized boxes make the targets easy to pick in the 3D view.
+    const targetGeom = new THREE.BoxGeometry(CELL_SIZE * 0.9, CELL_SIZE * 0.9, CELL_SIZE * 0.9);
+    const targetMat = new THREE.MeshBasicMaterial({ transparent: true, opacity: 0, depthWrite: false, colorWrite: false });
     
     validMoves.forEach(move => {
-      const worldPos = getCellWorldPosition(move.x, move.y, move.z);
+      if (!lookOf(move.z).visible) return;
+      // En passant: also ring the pawn that would be taken, which is not on the target cell
+      if (move.enPassant) {
+        const captured = enPassantCaptureSquare(move, variant);
+        const victimMesh = new THREE.Mesh(captureGeom, enPassantMat);
+        victimMesh.rotation.x = Math.PI / 2;
+        victimMesh.position.copy(getCellWorldPosition(captured.x, captured.y, captured.z, size, layerSpacing));
+        victimMesh.renderOrder = 1;
+        movesGroup.add(victimMesh);
+      }
+
+      const worldPos = getCellWorldPosition(move.x, move.y, move.z, size, layerSpacing);
       let mesh;
       if (move.capture) {
         mesh = new THREE.Mesh(captureGeom, captureMat);
@@ -185,18 +652,24 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
       mesh.position.copy(worldPos);
       mesh.renderOrder = 1; // Render on top of board grid
       movesGroup.add(mesh);
+
+      const target = new THREE.Mesh(targetGeom, targetMat);
+      target.position.copy(worldPos);
+      target.name = `cell_${move.x}_${move.y}_${move.z}`;
+      target.userData = { x: move.x, y: move.y, z: move.z };
+      movesGroup.add(target);
     });
-  }, [validMoves]);
+  }, [validMoves, variant, size, layerSpacing, layerLooks]);
 
   // Visualize hovered layer and potential moves
   useEffect(() => {
     const highlightsGroup = highlightsGroupRef.current;
     if (!highlightsGroup) return;
-    while (highlightsGroup.children.length) highlightsGroup.remove(highlightsGroup.children[0]);
+    while (highlightsGroup.children.length) disposeObject(highlightsGroup.children[0]);
 
     if (hoveredSquare) {
       // Layer Highlight
-      const layerHighlightGeom = new THREE.PlaneGeometry(BOARD_BOUNDS, BOARD_BOUNDS);
+      const layerHighlightGeom = new THREE.PlaneGeometry(boardBounds(size), boardBounds(size));
       const layerHighlightMat = new THREE.MeshBasicMaterial({
         color: 0x3b82f6,
         transparent: true,
@@ -205,11 +678,20 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
         depthWrite: false,
       });
       const layerHighlightMesh = new THREE.Mesh(layerHighlightGeom, layerHighlightMat);
-      layerHighlightMesh.position.y = hoveredSquare.z * CELL_SIZE - CENTER_OFFSET + CELL_SIZE;
+      layerHighlightMesh.position.y = layerWorldHeight(hoveredSquare.z, size, layerSpacing);
       layerHighlightMesh.rotation.x = Math.PI / 2;
       layerHighlightMesh.renderOrder = 0;
       highlightsGroup.add(layerHighlightMesh);
 
+      // Hovered Cell Outline
+      const cellOutline = new THREE.LineSegments(
+        new THREE.EdgesGeometry(new THREE.BoxGeometry(CELL_SIZE, CELL_SIZE, CELL_SIZE)),
+        new THREE.LineBasicMaterial({ color: 0xfacc15, transparent: true, opacity: 0.9, depthTest: false })
+      );
+      cellOutline.position.copy(getCellWorldPosition(hoveredSquare.x, hoveredSquare.y, hoveredSquare.z, size, layerSpacing));
+      cellOutline.renderOrder = 2;
+      highlightsGroup.add(cellOutline);
+
       // Valid Move Hover Highlight
       const isAValidMove = selectedPiece && validMoves.find(m => m.x === hoveredSquare.x && m.y === hoveredSquare.y && m.z === hoveredSquare.z);
       if (isAValidMove) {
@@ -221,12 +703,73 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
           depthWrite: false,
         });
         const moveHighlightMesh = new THREE.Mesh(moveHighlightGeom, moveHighlightMat);
-        moveHighlightMesh.position.copy(getCellWorldPosition(hoveredSquare.x, hoveredSquare.y, hoveredSquare.z));
+        moveHighlightMesh.position.copy(getCellWorldPosition(hoveredSquare.x, hoveredSquare.y, hoveredSquare.z, size, layerSpacing));
         moveHighlightMesh.renderOrder = 1;
         highlightsGroup.add(moveHighlightMesh);
       }
     }
-  }, [hoveredSquare, selectedPiece, validMoves]);
+  }, [hoveredSquare, selectedPiece, validMoves, size, layerSpacing]);
+
+  // Preview a move, e.g. an analysis line's first move: a translucent ghost of
+  // the piece on its target cell and an arrow from where it stands.
+  useEffect(() => {
+    const previewGroup = previewGroupRef.current;
+    if (!previewGroup) return;
+    // The ghost shares its geometry with the piece model; the arrow owns its own.
+    while (previewGroup.children.length) {
+      const child = previewGroup.children[0];
+      if (child.userData.type) disposePieceMesh(child);
+      else disposeObject(child);
+    }
+
+    const piece = previewMove && boardState[previewMove.from.x]?.[previewMove.from.y]?.[previewMove.from.z];
+    if (!previewMove || !piece || !pieceModels) return;
+
+    const ghost = createPieceMesh(
+      { ...piece, type: previewMove.promotion ?? piece.type, x: previewMove.x, y: previewMove.y, z: previewMove.z },
+      pieceModels,
+      size,
+      layerSpacing
+    );
+    ghost.traverse(child => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshStandardMaterial) {
+        child.material.transparent = true;
+        child.material.opacity = 0.45;
+        child.material.depthWrite = false;
+        child.castShadow = false;
+      }
+    });
+    previewGroup.add(ghost);
+
+    const from = getCellWorldPosition(previewMove.from.x, previewMove.from.y, previewMove.from.z, size, layerSpacing);
+    const to = getCellWorldPosition(previewMove.x, previewMove.y, previewMove.z, size, layerSpacing);
+    const direction = to.clone().sub(from);
+    const length = direction.length();
+    const arrow = new THREE.ArrowHelper(direction.normalize(), from, length, 0xfacc15, Math.min(CELL_SIZE * 0.6, length * 0.4), CELL_SIZE * 0.35);
+    arrow.traverse(child => {
+      if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+        child.material.depthTest = false;
+        child.renderOrder = 2;
+      }
+    });
+    previewGroup.add(arrow);
+  }, [previewMove, boardState, pieceModels, size, layerSpacing]);
+
+  // Show, hide and fade layers with their pieces. Pieces fading in or out
+  // follow their layer as they fade.
+  useEffect(() => {
+    gridGroupRef.current?.children.forEach(layer => {
+      const look = lookOf(layer.userData.z);
+      layer.visible = look.visible;
+      setBoardLayerOpacity(layer, look.opacity);
+    });
+    const fading = new Set(pieceTweensRef.current.filter(tween => tween.fade).map(tween => tween.mesh));
+    piecesGroupRef.current?.children.forEach(mesh => {
+      const look = lookOf(mesh.userData.z);
+      mesh.visible = look.visible;
+      if (!fading.has(mesh)) setPieceOpacity(mesh, look.opacity);
+    });
+  }, [layerLooks, boardState, pieceModels, size, layerSpacing]);
 
   return (
     <div className="w-full h-full relative">
@@ -236,6 +779,92 @@ const ThreeScene: React.FC<ThreeSceneProps> = ({ boardState, selectedPiece, vali
         </div>
       )}
       <div id="game-container" ref={mountRef} className="w-full h-full" />
+      <div className="absolute top-2 right-2 flex items-center space-x-1 text-xs">
+        {VIEW_BUTTONS.map(({ view, label, title }) => (
+          <button
+            key={view}
+            onClick={() => flyToRef.current(view)}
+            title={title}
+            className="px-2 py-1 bg-gray-800 bg-opacity-80 hover:bg-gray-700 text-gray-200 rounded transition-colors duration-200"
+          >
+            {label}
+          </button>
+        ))}
+        <button
+          onClick={() => flyToRef.current(isFollowingTurn ? turn : 'isometric')}
+          title="Put the camera back where it started"
+          className="px-2 py-1 bg-pink-500 hover:bg-pink-600 font-bold rounded transition-colors duration-200"
+        >
+          Reset view
+        </button>
+        <label className="flex items-center space-x-1 px-2 py-1 bg-gray-800 bg-opacity-80 text-gray-200 rounded cursor-pointer" title="Turn the camera to the side to move after every move">
+          <input type="checkbox" checked={isFollowingTurn} onChange={(e) => setIsFollowingTurn(e.target.checked)} />
+          <span>Follow turn</span>
+        </label>
+      </div>
+      <div className="absolute bottom-2 left-2 text-xs text-gray-200">
+        <button
+          onClick={() => setIsLayersPanelOpen(!isLayersPanelOpen)}
+          className="px-2 py-1 bg-gray-800 bg-opacity-80 hover:bg-gray-700 rounded transition-colors duration-200"
+        >
+          Layers {isLayersPanelOpen ? '▾' : '▸'}
+        </button>
+        {isLayersPanelOpen && (
+          <div className="mt-1 p-2 w-56 bg-gray-800 bg-opacity-90 rounded-lg shadow-xl space-y-2">
+            <label className="flex items-center space-x-2" title="Spread the layers apart to see into the cube">
+              <span className="w-12">Explode</span>
+              <input
+                type="range"
+                min={1}
+                max={MAX_LAYER_SPACING}
+                step={0.1}
+                value={layerSpacing}
+                onChange={(e) => setLayerSpacing(Number(e.target.value))}
+                className="flex-1 accent-pink-500"
+              />
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer" title="Ghost every layer but the one under the pointer on the 2D layer boards">
+              <input type="checkbox" checked={isFocusing} onChange={(e) => setIsFocusing(e.target.checked)} />
+              <span>Focus the hovered 2D layer</span>
+            </label>
+            <ul className="space-y-1">
+              {layerLooks.map((_, z) => layerLooks.length - 1 - z).map(z => {
+                const setting = layerSettings[z] ?? DEFAULT_LAYER_SETTING;
+                const changeSetting = (change: Partial<LayerSetting>) => setLayerSettings(settings => {
+                  const next = Array.from({ length: size }, (_, i) => settings[i] ?? DEFAULT_LAYER_SETTING);
+                  next[z] = { ...next[z], ...change };
+                  return next;
+                });
+                return (
+                  <li key={z} className="flex items-center space-x-2">
+                    <label className="flex items-center space-x-1 w-12 font-mono cursor-pointer">
+                      <input type="checkbox" checked={setting.visible} onChange={(e) => changeSetting({ visible: e.target.checked })} />
+                      <span>Z={z}</span>
+                    </label>
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={setting.opacity}
+                      disabled={!setting.visible}
+                      onChange={(e) => changeSetting({ opacity: Number(e.target.value) })}
+                      aria-label={`Layer Z=${z} opacity`}
+                      className="flex-1 accent-pink-500 disabled:opacity-40"
+                    />
+                  </li>
+                );
+              })}
+            </ul>
+            <button
+              onClick={() => { setLayerSettings([]); setLayerSpacing(1); }}
+              className="w-full px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded transition-colors duration-200"
+            >
+              Reset layers
+            </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
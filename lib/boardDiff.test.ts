@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { BoardState, Move, Piece } from '../types';
+import { calculateLegalMoves, simulateMove } from './gameLogic';
+import { diffBoards } from './boardDiff';
+import { boardWith } from './testBoards';
+import type { PieceSpec } from './testBoards';
+
+const play = (board: BoardState, from: [number, number, number], chosen: (move: Move) => boolean, promotion?: Move['promotion']) => {
+    const piece = board[from[0]][from[1]][from[2]] as Piece;
+    const move = calculateLegalMoves(piece, board).find(chosen) as Move;
+    return simulateMove(piece, { ...move, promotion }, board);
+};
+
+describe('board diffs', () => {
+    const kings: PieceSpec[] = [['K', 'white', 4, 3, 0], ['K', 'black', 4, 3, 7]];
+
+    it('moves the capturing piece and removes its victim', () => {
+        const board = boardWith(...kings, ['N', 'white', 1, 0, 0], ['P', 'black', 2, 0, 2]);
+        const after = play(board, [1, 0, 0], m => m.x === 2 && m.z === 2);
+        const diff = diffBoards(board, after);
+        expect(diff.moved).toEqual([{ from: { x: 1, y: 0, z: 0 }, piece: after[2][0][2] }]);
+        expect(diff.removed).toEqual([board[2][0][2]]);
+        expect(diff.added).toEqual([]);
+
+        // Taking the capture back brings the victim back.
+        const back = diffBoards(after, board);
+        expect(back.moved).toEqual([{ from: { x: 2, y: 0, z: 2 }, piece: board[1][0][0] }]);
+        expect(back.added).toEqual([board[2][0][2]]);
+    });
+
+    it('moves king and rook together when castling', () => {
+        const board = boardWith(['K', 'white', 4, 3, 0, false], ['K', 'black', 4, 3, 7], ['R', 'white', 7, 3, 0, false]);
+        const after = play(board, [4, 3, 0], m => m.castle === 'king');
+        const diff = diffBoards(board, after);
+        expect(diff.moved.map(({ from, piece }) => [piece.type, from.x, piece.x])).toEqual([['R', 7, 5], ['K', 4, 6]]);
+        expect(diff.removed).toEqual([]);
+        expect(diff.added).toEqual([]);
+    });
+
+    it('follows a pawn through its promotion and back', () => {
+        const board = boardWith(...kings, ['P', 'white', 2, 2, 6], ['P', 'white', 6, 2, 6]);
+        const after = play(board, [2, 2, 6], m => m.z === 7 && !m.capture, 'Q');
+        expect(diffBoards(board, after).moved).toEqual([{ from: { x: 2, y: 2, z: 6 }, piece: after[2][2][7] }]);
+        expect(diffBoards(after, board)).toEqual({
+            moved: [{ from: { x: 2, y: 2, z: 7 }, piece: board[2][2][6] }],
+            removed: [],
+            added: []
+        });
+    });
+});
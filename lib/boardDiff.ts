@@ -0,0 +1,68 @@
+import type { BoardState, Piece, Square } from '../types';
+
+// =====================================================================================
+// == BOARD DIFFS ==
+// =====================================================================================
+//
+// Works out which pieces moved between two boards, so the 3D view can slide
+// its existing piece meshes instead of rebuilding them (see ThreeScene.tsx).
+// Boards carry no piece identities, so pieces that left a cell are paired with
+// pieces that arrived on one by colour and type, nearest first. That covers
+// single moves, castling, en passant and promotion as well as stepping back
+// and forth through the move history.
+
+export interface PieceMovement {
+    from: Square;
+    // The piece on its new cell, which may have promoted on the way.
+    piece: Piece;
+}
+
+export interface BoardDiff {
+    moved: PieceMovement[];
+    // Pieces that are gone, e.g. captured.
+    removed: Piece[];
+    // Pieces that appeared from nowhere, e.g. when a capture is taken back.
+    added: Piece[];
+}
+
+const distance = (a: Square, b: Square) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + Math.abs(a.z - b.z);
+
+/**
+ * Compares two boards of the same size. A cell holding a piece of the same
+ * colour and type on both boards counts as unchanged.
+ */
+export function diffBoards(previous: BoardState, next: BoardState): BoardDiff {
+    const left: Piece[] = [];
+    const arrived: Piece[] = [];
+    const size = next.length;
+    for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+            for (let z = 0; z < size; z++) {
+                const before = previous[x][y][z];
+                const after = next[x][y][z];
+                if (before?.color === after?.color && before?.type === after?.type) continue;
+                if (before) left.push(before);
+                if (after) arrived.push(after);
+            }
+        }
+    }
+
+    // Pair pieces of the same type first, then promotions and their take-backs.
+    const moved: PieceMovement[] = [];
+    const pair = (matches: (from: Piece, to: Piece) => boolean) => {
+        for (let i = 0; i < arrived.length; i++) {
+            const piece = arrived[i];
+            let nearest = -1;
+            left.forEach((from, j) => {
+                if (matches(from, piece) && (nearest < 0 || distance(from, piece) < distance(left[nearest], piece))) nearest = j;
+            });
+            if (nearest < 0) continue;
+            const [from] = left.splice(nearest, 1);
+            moved.push({ from: { x: from.x, y: from.y, z: from.z }, piece });
+            arrived.splice(i--, 1);
+        }
+    };
+    pair((from, to) => from.color === to.color && from.type === to.type);
+    pair((from, to) => from.color === to.color);
+    return { moved, removed: left, added: arrived };
+}
@@ -0,0 +1,47 @@
+import { DIFFICULTY_LIMITS, engineSupports, MATE_SCORE, searchBestMove } from './engine';
+import type { EngineInfo, VolumetricEngine } from './engineProtocol';
+import { moveToCoordinates } from './notation';
+
+// Effectively unbounded limits for `go infinite` and missing go fields.
+const UNLIMITED_DEPTH = 64;
+const UNLIMITED_TIME_MS = 24 * 60 * 60 * 1000;
+
+// Engine scores within this distance of MATE_SCORE are forced mates.
+const MATE_RANGE = 1000;
+
+function scoreInfo(score: number): EngineInfo['score'] {
+    if (Math.abs(score) < MATE_SCORE - MATE_RANGE) return { cp: score };
+    // The engine counts plies to the mate, the protocol counts moves.
+    const moves = Math.ceil((MATE_SCORE - Math.abs(score)) / 2);
+    return { mate: score > 0 ? moves : -moves };
+}
+
+/**
+ * The built-in engine (see engine.ts) behind the engine protocol, so headless
+ * tools can run it like any external engine. Its search is synchronous and
+ * cannot be stopped early: it always runs to its own depth or time limit. A
+ * go without limits searches as deep as the hard difficulty.
+ */
+export const BUILT_IN_ENGINE: VolumetricEngine = {
+    name: 'Built-in engine',
+    author: 'Volumetric Chess',
+    async search(position, limits, report) {
+        if (!engineSupports(position)) throw new Error('The built-in engine only plays the standard variant');
+        const started = Date.now();
+        const bounded = limits.depth !== undefined || limits.movetimeMs !== undefined;
+        const result = searchBestMove(position, {
+            maxDepth: limits.depth ?? (limits.infinite || bounded ? UNLIMITED_DEPTH : DIFFICULTY_LIMITS.hard.maxDepth),
+            timeLimitMs: limits.movetimeMs ?? (limits.infinite || bounded ? UNLIMITED_TIME_MS : DIFFICULTY_LIMITS.hard.timeLimitMs)
+        });
+        if (result.move) {
+            report({
+                depth: result.depth,
+                score: scoreInfo(result.score),
+                nodes: result.nodes,
+                timeMs: Date.now() - started,
+                pv: [moveToCoordinates(result.move)]
+            });
+        }
+        return result.move;
+    }
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { TimeControl } from '../types';
+import { ChessClock, formatClock } from './clock';
+import { Game } from './game';
+import { fromPositionString } from './gameLogic';
+import { exportGameRecord, importGameRecord } from './gameRecord';
+
+const SUDDEN_DEATH: TimeControl = { mode: 'sudden-death', initialMs: 60_000, incrementMs: 0 };
+const FISCHER: TimeControl = { mode: 'fischer', initialMs: 60_000, incrementMs: 2_000 };
+const BRONSTEIN: TimeControl = { mode: 'bronstein', initialMs: 60_000, incrementMs: 3_000 };
+
+const move = (from: [number, number, number], to: [number, number, number]) =>
+    ({ from: { x: from[0], y: from[1], z: from[2] }, x: to[0], y: to[1], z: to[2], capture: false });
+
+// Kings in opposite corners, a white queen and a black knight.
+const QUEEN_VS_KNIGHT = 'K7/8/8/8/8/8/8/1Q6|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|'
+    + '8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|n6k/8/8/8/8/8/8/8 w - 0 40';
+
+describe('chess clock', () => {
+    it('starts with the first move and only runs for the side to move', () => {
+        const clock = new ChessClock(SUDDEN_DEATH);
+        expect(clock.press('white', 0)).toBeUndefined();
+        expect(clock.timeLeft('white', 5_000)).toBe(60_000);
+        expect(clock.timeLeft('black', 5_000)).toBe(55_000);
+        expect(clock.press('black', 5_000)).toBe(55_000);
+        expect(clock.timeLeft('white', 6_000)).toBe(59_000);
+        expect(() => clock.press('black', 6_000)).toThrow();
+    });
+
+    it('adds the Fischer increment after every move', () => {
+        const clock = new ChessClock(FISCHER);
+        clock.press('white', 0);
+        expect(clock.press('black', 10_000)).toBe(52_000);
+        expect(clock.press('white', 10_500)).toBe(61_500);
+    });
+
+    it('gives back at most the Bronstein delay', () => {
+        const clock = new ChessClock(BRONSTEIN);
+        clock.press('white', 0);
+        expect(clock.press('black', 10_000)).toBe(53_000);
+        expect(clock.press('white', 11_000)).toBe(60_000);
+    });
+
+    it('stops while paused', () => {
+        const clock = new ChessClock(BRONSTEIN);
+        clock.press('white', 0);
+        clock.pause(2_000);
+        expect(clock.timeLeft('black', 30_000)).toBe(58_000);
+        clock.resume(30_000);
+        // The delay covers the whole turn, not just the time since resuming.
+        expect(clock.press('black', 31_000)).toBe(60_000);
+    });
+
+    it('flags the side whose time runs out', () => {
+        const clock = new ChessClock(SUDDEN_DEATH);
+        clock.press('white', 0);
+        expect(clock.flagged(59_999)).toBeNull();
+        expect(clock.flagged(60_000)).toBe('black');
+        expect(clock.timeLeft('black', 90_000)).toBe(0);
+    });
+
+    it('refuses a move made once the mover has run out of time', () => {
+        const clock = new ChessClock(FISCHER);
+        clock.press('white', 0);
+        expect(() => clock.press('black', 60_000)).toThrow('run out of time');
+        expect(() => clock.press('black', 75_000)).toThrow('run out of time');
+        // No increment was added for the refused moves.
+        expect(clock.timeLeft('black', 75_000)).toBe(0);
+        expect(clock.flagged(75_000)).toBe('black');
+    });
+
+    it('formats the time left', () => {
+        expect(formatClock(300_000)).toBe('5:00');
+        expect(formatClock(59_001)).toBe('1:00');
+        expect(formatClock(9_870)).toBe('0:09.8');
+        expect(formatClock(3_723_000)).toBe('1:02:03');
+    });
+});
+
+describe('time forfeit', () => {
+    it('loses on time when the opponent can still mate', () => {
+        const game = new Game(fromPositionString(QUEEN_VS_KNIGHT.replace(' w ', ' b ')));
+        game.flag();
+        expect(game.status()).toEqual({ state: 'timeout', winner: 'white' });
+    });
+
+    it('draws when the opponent has no mating material', () => {
+        const game = new Game(fromPositionString(QUEEN_VS_KNIGHT.replace('n6k', '7k')));
+        game.flag();
+        expect(game.status()).toEqual({ state: 'draw', reason: 'timeout-vs-insufficient-material' });
+    });
+
+    it('counts a lone knight as mating material while the flagged side has pieces', () => {
+        const game = new Game(fromPositionString(QUEEN_VS_KNIGHT));
+        game.flag();
+        expect(game.status()).toEqual({ state: 'timeout', winner: 'black' });
+    });
+
+    it('keeps the clock and the flag fall in the game record', () => {
+        const game = new Game();
+        game.applyMove(move([1, 0, 0], [1, 1, 2]));
+        game.applyMove(move([1, 0, 7], [1, 1, 5]), 52_300);
+        game.applyMove(move([1, 1, 2], [1, 0, 0]), 3_661_000);
+        game.flag();
+        const text = exportGameRecord(game, {}, FISCHER);
+        expect(text).toContain('[TimeControl "60+2"]');
+        expect(text).toContain('[Termination "time forfeit"]');
+        expect(text).toContain('{[%clk 0:00:52.3]}');
+        expect(text).toContain('{[%clk 1:01:01]}');
+
+        const imported = importGameRecord(text);
+        expect(imported.timeControl).toEqual(FISCHER);
+        expect(imported.game.status()).toEqual({ state: 'timeout', winner: 'white' });
+        expect(imported.game.history().map(record => record.clockMs)).toEqual([undefined, 52_300, 3_661_000]);
+
+        const clock = ChessClock.fromHistory(FISCHER, imported.game.history(), 'black');
+        expect(clock.activeColor()).toBe('black');
+        expect(clock.timeLeft('black', 0)).toBe(52_300);
+        expect(() => importGameRecord(text.replace('60+2', 'fast'))).toThrow();
+    });
+});
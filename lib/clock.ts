@@ -0,0 +1,129 @@
+import type { Piece, TimeControl } from '../types';
+import type { MoveRecord } from './game';
+
+// =====================================================================================
+// == CHESS CLOCK ==
+// =====================================================================================
+//
+// A two-sided game clock that never reads the time itself: every method that
+// depends on it takes the current time in milliseconds, so the UI passes
+// Date.now() and tests pass whatever they like. Only one side's time runs, the
+// side whose turn it is, and only while the clock is not paused. The clock
+// starts with the first move: White's first move is untimed and starts Black's
+// time.
+
+export type ClockTimes = Record<Piece['color'], number>;
+
+export const TIME_CONTROLS: { label: string; control: TimeControl }[] = [
+    { label: '1 min bullet', control: { mode: 'sudden-death', initialMs: 60_000, incrementMs: 0 } },
+    { label: '3 | 2 Fischer', control: { mode: 'fischer', initialMs: 180_000, incrementMs: 2_000 } },
+    { label: '5 min sudden death', control: { mode: 'sudden-death', initialMs: 300_000, incrementMs: 0 } },
+    { label: '5 min, 3 s Bronstein delay', control: { mode: 'bronstein', initialMs: 300_000, incrementMs: 3_000 } },
+    { label: '15 | 10 Fischer', control: { mode: 'fischer', initialMs: 900_000, incrementMs: 10_000 } }
+];
+
+export class ChessClock {
+    private times: ClockTimes;
+    // The side whose time runs once the clock is not paused, null before the
+    // first move.
+    private active: Piece['color'] | null;
+    // When the active side's time last started running, null while paused.
+    private runningSince: number | null = null;
+    // The active side's time when its turn began, for the Bronstein delay.
+    private turnStartTime = 0;
+
+    constructor(
+        readonly control: TimeControl,
+        times: ClockTimes = { white: control.initialMs, black: control.initialMs },
+        active: Piece['color'] | null = null
+    ) {
+        this.times = { ...times };
+        this.active = active;
+        if (active) this.turnStartTime = times[active];
+    }
+
+    /**
+     * Restores the clock of a recorded game: each side keeps the time noted
+     * with its last move, and the side to move is active but paused.
+     */
+    static fromHistory(control: TimeControl, history: MoveRecord[], turn: Piece['color']): ChessClock {
+        const times: ClockTimes = { white: control.initialMs, black: control.initialMs };
+        for (const record of history) {
+            if (record.clockMs !== undefined) times[record.piece.color] = record.clockMs;
+        }
+        return new ChessClock(control, times, history.length > 0 ? turn : null);
+    }
+
+    activeColor(): Piece['color'] | null {
+        return this.active;
+    }
+
+    isRunning(): boolean {
+        return this.runningSince !== null;
+    }
+
+    timeLeft(color: Piece['color'], now: number): number {
+        const elapsed = color === this.active && this.runningSince !== null ? Math.max(0, now - this.runningSince) : 0;
+        return Math.max(0, this.times[color] - elapsed);
+    }
+
+    // The side whose time has run out, if any.
+    flagged(now: number): Piece['color'] | null {
+        return this.active && this.timeLeft(this.active, now) === 0 ? this.active : null;
+    }
+
+    pause(now: number): void {
+        if (!this.active || this.runningSince === null) return;
+        this.times[this.active] = this.timeLeft(this.active, now);
+        this.runningSince = null;
+    }
+
+    // Does nothing before the first move, when no side's time runs yet.
+    resume(now: number): void {
+        if (!this.active || this.runningSince !== null) return;
+        this.runningSince = now;
+    }
+
+    /**
+     * Ends the turn of the side that just moved and starts the opponent's time.
+     * Returns the mover's remaining time, increment or delay included, or
+     * undefined for the untimed first move.
+     */
+    press(mover: Piece['color'], now: number): number | undefined {
+        const opponent = mover === 'white' ? 'black' : 'white';
+        if (this.active === opponent) {
+            throw new Error(`It is ${opponent}'s turn on the clock`);
+        }
+        if (this.active === null) {
+            this.switchTo(opponent, now);
+            return undefined;
+        }
+        // A move played while paused, e.g. a promotion, leaves the clock paused.
+        const wasRunning = this.runningSince !== null;
+        this.pause(now);
+        if (this.times[mover] === 0) {
+            throw new Error(`${mover} has already run out of time`);
+        }
+        const spent = this.turnStartTime - this.times[mover];
+        if (this.control.mode === 'fischer') this.times[mover] += this.control.incrementMs;
+        if (this.control.mode === 'bronstein') this.times[mover] += Math.min(spent, this.control.incrementMs);
+        this.switchTo(opponent, wasRunning ? now : null);
+        return this.times[mover];
+    }
+
+    private switchTo(color: Piece['color'], now: number | null): void {
+        this.active = color;
+        this.turnStartTime = this.times[color];
+        this.runningSince = now;
+    }
+}
+
+// m:ss, or h:mm:ss from an hour up, with tenths under ten seconds.
+export function formatClock(ms: number): string {
+    if (ms < 10_000) return `0:0${(Math.floor(ms / 100) / 10).toFixed(1)}`;
+    const totalSeconds = Math.ceil(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor(totalSeconds / 60) % 60;
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
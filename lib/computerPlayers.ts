@@ -0,0 +1,51 @@
+import type { Move, Position } from '../types';
+import { engineSupports } from './engine';
+import type { SearchLimits } from './engine';
+import { EngineClient } from './engineClient';
+import { ProtocolEngineClient } from './engineProtocolClient';
+import { workerEngineLink } from './engineTransports';
+
+// What the app needs from a computer opponent, whichever engine plays it.
+export interface ComputerPlayer {
+    search(position: Position, limits: SearchLimits): Promise<Move | null>;
+    cancel(): void;
+    terminate(): void;
+}
+
+export interface ComputerPlayerOption {
+    name: string;
+    supports: (position: Position) => boolean;
+    create: () => ComputerPlayer;
+}
+
+function builtInPlayer(): ComputerPlayer {
+    const client = new EngineClient();
+    return {
+        search: async (position, limits) => (await client.search(position, limits)).move,
+        cancel: () => client.cancel(),
+        terminate: () => client.terminate()
+    };
+}
+
+// Plays through an engine protocol engine running in `worker`. The difficulty
+// maps onto its depth and time limits.
+function protocolPlayer(worker: Worker): ComputerPlayer {
+    const client = new ProtocolEngineClient(workerEngineLink(worker));
+    return {
+        search: async (position, limits) =>
+            (await client.search(position, { depth: limits.maxDepth, movetimeMs: limits.timeLimitMs })).move,
+        cancel: () => client.cancel(),
+        terminate: () => client.close()
+    };
+}
+
+// Engines that speak the engine protocol (see engineProtocol.ts) from a Web
+// Worker are offered as opponents by adding them here.
+export const COMPUTER_PLAYERS: ComputerPlayerOption[] = [
+    { name: 'Built-in engine', supports: engineSupports, create: builtInPlayer },
+    {
+        name: 'Random mover',
+        supports: () => true,
+        create: () => protocolPlayer(new Worker(new URL('./randomEngine.worker.ts', import.meta.url), { type: 'module' }))
+    }
+];
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { fromPositionString, initialPosition } from './gameLogic';
+import { Game } from './game';
+import { analysePosition, searchBestMove } from './engine';
+
+const QUEEN_VS_KNIGHT = 'K7/8/8/8/8/8/8/1Q6|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|'
+    + '8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|n6k/8/8/8/8/8/8/8 w - 0 40';
+
+describe('position analysis', () => {
+    it('reports the best lines, best first, as legal move sequences', () => {
+        const position = fromPositionString(QUEEN_VS_KNIGHT);
+        const depths: number[] = [];
+        const analysis = analysePosition(position, { maxDepth: 3, timeLimitMs: 60_000 }, 3, partial => depths.push(partial.depth));
+
+        expect(depths).toEqual([1, 2, 3]);
+        expect(analysis.depth).toBe(3);
+        expect(analysis.lines).toHaveLength(3);
+        const scores = analysis.lines.map(line => line.score);
+        expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+        expect(scores[0]).toBe(searchBestMove(position, { maxDepth: 3, timeLimitMs: 60_000 }).score);
+        for (const line of analysis.lines) {
+            expect(line.moves.length).toBeGreaterThan(1);
+            const game = new Game(position);
+            line.moves.forEach(move => game.applyMove(move));
+        }
+    });
+
+    it('keeps only as many lines as asked for', () => {
+        const analysis = analysePosition(initialPosition(), { maxDepth: 1, timeLimitMs: 60_000 }, 2);
+        expect(analysis.lines).toHaveLength(2);
+        expect(analysis.lines.every(line => line.moves.length === 1)).toBe(true);
+    });
+});
@@ -0,0 +1,324 @@
+import { SIZE } from '../types';
+import type { Move, Piece, Position } from '../types';
+import {
+    FastBoard,
+    CELL_COUNT,
+    BISHOP,
+    KING,
+    PAWN,
+    ROOK,
+    WHITE,
+    isCaptureMove,
+    isEnPassantMove,
+    moveFrom,
+    movePromotion,
+    moveTo,
+    pieceCode,
+    squareCoords
+} from './fastBoard';
+import { PIECE_VALUES } from './pieces';
+import { STANDARD_VARIANT } from './variants';
+
+// =====================================================================================
+// == BUILT-IN COMPUTER OPPONENT ==
+// =====================================================================================
+//
+// Negamax alpha-beta search with iterative deepening. Each iteration searches
+// the previous iteration's best move first, captures are ordered most valuable
+// victim / least valuable attacker first, and leaf positions are resolved with
+// a short capture-only quiescence search. The search is bounded by both a depth
+// and a time limit; the best move of the deepest finished iteration is played.
+// It runs on a FastBoard, making and unmaking moves in place, and so only plays
+// the standard variant with orthodox pieces.
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export function engineSupports(position: Position): boolean {
+    return position.variant.name === STANDARD_VARIANT.name
+        && position.board.every(plane => plane.every(row => row.every(piece => !piece || pieceCode(piece.type) !== 0)));
+}
+
+export interface SearchLimits {
+    maxDepth: number;
+    timeLimitMs: number;
+    // Random noise, in centipawns, added to root move scores to weaken play.
+    randomness?: number;
+}
+
+export interface SearchResult {
+    move: Move | null;
+    score: number;
+    depth: number;
+    nodes: number;
+}
+
+export interface AnalysisLine {
+    // A candidate move followed by the best play the search expects after it.
+    moves: Move[];
+    // From the point of view of the side to move, as in SearchResult.
+    score: number;
+}
+
+export interface PositionAnalysis {
+    // The best candidate lines, best first.
+    lines: AnalysisLine[];
+    depth: number;
+    nodes: number;
+}
+
+export const DIFFICULTY_LIMITS: Record<Difficulty, SearchLimits> = {
+    easy: { maxDepth: 1, timeLimitMs: 1000, randomness: 150 },
+    medium: { maxDepth: 2, timeLimitMs: 3000, randomness: 20 },
+    hard: { maxDepth: 6, timeLimitMs: 8000 },
+};
+
+// Analysis mode keeps deepening until one of these limits is reached.
+export const ANALYSIS_LIMITS: SearchLimits = { maxDepth: 6, timeLimitMs: 20000 };
+
+export const MATE_SCORE = 1000000;
+// The computer takes a draw offer once it stands this much worse.
+const DRAW_ACCEPT_SCORE = -150;
+const INFINITY = MATE_SCORE + 1;
+const MAX_QUIESCENCE_DEPTH = 4;
+
+interface SearchContext {
+    board: FastBoard;
+    deadline: number;
+    nodes: number;
+    aborted: boolean;
+    // Triangular table of principal variations: pvTable[ply] holds the best
+    // line found from `ply` on, pvLength[ply] moves long.
+    pvTable: number[][];
+    pvLength: number[];
+}
+
+// Centipawn value per piece code; the king has no material value.
+const MATERIAL = [0, ...(['P', 'N', 'B', 'R', 'Q', 'K'] as const).map(type => PIECE_VALUES[type] * 100)];
+
+// Small positional terms: pieces other than pawns and kings like the centre of
+// the cube, pawns are rewarded for each layer they advance.
+const CENTER_BONUS = new Int16Array(CELL_COUNT);
+const PAWN_ADVANCE_WHITE = new Int16Array(CELL_COUNT);
+const PAWN_ADVANCE_BLACK = new Int16Array(CELL_COUNT);
+for (let sq = 0; sq < CELL_COUNT; sq++) {
+    const { x, y, z } = squareCoords(sq);
+    const center = (SIZE - 1) / 2;
+    const distance = Math.max(Math.abs(x - center), Math.abs(y - center), Math.abs(z - center));
+    CENTER_BONUS[sq] = Math.round((center - distance) * 4);
+    PAWN_ADVANCE_WHITE[sq] = (z - 1) * 8;
+    PAWN_ADVANCE_BLACK[sq] = (SIZE - 2 - z) * 8;
+}
+
+// Static evaluation in centipawns from the point of view of the side to move.
+export function evaluate(board: FastBoard): number {
+    const cells = board.cells;
+    let score = 0;
+    for (let sq = 0; sq < CELL_COUNT; sq++) {
+        const code = cells[sq];
+        if (code === 0) continue;
+        const type = Math.abs(code);
+        let value = MATERIAL[type];
+        if (type === PAWN) value += code > 0 ? PAWN_ADVANCE_WHITE[sq] : PAWN_ADVANCE_BLACK[sq];
+        else if (type !== KING) value += CENTER_BONUS[sq];
+        score += code > 0 ? value : -value;
+    }
+    return board.side === WHITE ? score : -score;
+}
+
+// Decides a draw offer made to `color` by static evaluation alone.
+export function shouldAcceptDraw(position: Position, color: Piece['color']): boolean {
+    const score = evaluate(FastBoard.fromBoardState(position.board, position.turn, position.enPassant));
+    return (position.turn === color ? score : -score) <= DRAW_ACCEPT_SCORE;
+}
+
+function orderScore(board: FastBoard, move: number): number {
+    let score = 0;
+    if (isCaptureMove(move)) {
+        // Most valuable victim first, least valuable attacker as tie-break.
+        const victim = isEnPassantMove(move) ? PAWN : Math.abs(board.cells[moveTo(move)]);
+        const attacker = Math.abs(board.cells[moveFrom(move)]);
+        score += MATERIAL[victim] * 10 - (MATERIAL[attacker] || 1000) / 100;
+    }
+    const promotion = movePromotion(move);
+    if (promotion) score += MATERIAL[promotion];
+    return score;
+}
+
+// Pseudo-legal moves in search order. Rook and bishop promotions are skipped:
+// a queen or a knight is always at least as good.
+function orderedMoves(board: FastBoard, capturesOnly: boolean): number[] {
+    const moves = board.generateMoves().filter(move => {
+        const promotion = movePromotion(move);
+        if (promotion === ROOK || promotion === BISHOP) return false;
+        return !capturesOnly || isCaptureMove(move);
+    });
+    const scores = new Map(moves.map(move => [move, orderScore(board, move)]));
+    return moves.sort((a, b) => (scores.get(b) as number) - (scores.get(a) as number));
+}
+
+function isTimeUp(ctx: SearchContext): boolean {
+    if (!ctx.aborted && (ctx.nodes & 255) === 0 && Date.now() > ctx.deadline) {
+        ctx.aborted = true;
+    }
+    return ctx.aborted;
+}
+
+function quiescence(alpha: number, beta: number, qDepth: number, ctx: SearchContext): number {
+    const board = ctx.board;
+    ctx.nodes++;
+    const standPat = evaluate(board);
+    if (standPat >= beta || qDepth >= MAX_QUIESCENCE_DEPTH || isTimeUp(ctx)) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const side = board.side;
+    for (const move of orderedMoves(board, true)) {
+        board.makeMove(move);
+        const legal = !board.inCheck(side);
+        const score = legal ? -quiescence(-beta, -alpha, qDepth + 1, ctx) : -INFINITY;
+        board.unmakeMove();
+        if (ctx.aborted) return alpha;
+        if (score >= beta) return score;
+        if (score > alpha) alpha = score;
+    }
+    return alpha;
+}
+
+function updatePv(ctx: SearchContext, ply: number, move: number): void {
+    const line = ctx.pvTable[ply] ??= [];
+    const rest = ctx.pvTable[ply + 1] ?? [];
+    const restLength = ctx.pvLength[ply + 1] ?? 0;
+    line[0] = move;
+    for (let i = 0; i < restLength; i++) line[i + 1] = rest[i];
+    ctx.pvLength[ply] = restLength + 1;
+}
+
+function negamax(depth: number, alpha: number, beta: number, ply: number, ctx: SearchContext): number {
+    ctx.pvLength[ply] = 0;
+    if (depth === 0) return quiescence(alpha, beta, 0, ctx);
+    const board = ctx.board;
+    ctx.nodes++;
+    if (isTimeUp(ctx)) return 0;
+
+    const side = board.side;
+    let best = -INFINITY;
+    let legalMoves = 0;
+    for (const move of orderedMoves(board, false)) {
+        board.makeMove(move);
+        if (board.inCheck(side)) {
+            board.unmakeMove();
+            continue;
+        }
+        legalMoves++;
+        const score = -negamax(depth - 1, -beta, -alpha, ply + 1, ctx);
+        board.unmakeMove();
+        if (ctx.aborted) return 0;
+        if (score > best) best = score;
+        if (score > alpha) {
+            alpha = score;
+            updatePv(ctx, ply, move);
+        }
+        if (alpha >= beta) break;
+    }
+
+    if (legalMoves === 0) {
+        return board.inCheck(side) ? -MATE_SCORE + ply : 0;
+    }
+    return best;
+}
+
+function createContext(board: FastBoard, limits: SearchLimits): SearchContext {
+    return { board, deadline: Date.now() + limits.timeLimitMs, nodes: 0, aborted: false, pvTable: [], pvLength: [] };
+}
+
+/**
+ * Finds the best move for the side to move in `position`. Returns a null move
+ * when the side to move has no legal moves.
+ */
+export function searchBestMove(position: Position, limits: SearchLimits): SearchResult {
+    const board = FastBoard.fromBoardState(position.board, position.turn, position.enPassant);
+    const ctx = createContext(board, limits);
+    const randomness = limits.randomness ?? 0;
+
+    // Each root move gets a fixed amount of noise for the whole search. It is
+    // taken out of the search window so fail-low bounds never look better than
+    // the move they failed against.
+    const legal = new Set(board.legalMoves());
+    let rootMoves = orderedMoves(board, false)
+        .filter(move => legal.has(move))
+        .map(move => ({ move, noise: Math.round((Math.random() - 0.5) * 2 * randomness) }));
+    if (rootMoves.length === 0) {
+        return { move: null, score: board.inCheck() ? -MATE_SCORE : 0, depth: 0, nodes: 0 };
+    }
+
+    let best = { move: rootMoves[0].move, score: -INFINITY, depth: 0 };
+    for (let depth = 1; depth <= limits.maxDepth; depth++) {
+        const scored: { candidate: typeof rootMoves[number]; score: number }[] = [];
+        let alpha = -INFINITY;
+        for (const candidate of rootMoves) {
+            board.makeMove(candidate.move);
+            const score = -negamax(depth - 1, -INFINITY, -(alpha - candidate.noise), 1, ctx) + candidate.noise;
+            board.unmakeMove();
+            if (ctx.aborted) break;
+            scored.push({ candidate, score });
+            if (score > alpha) alpha = score;
+        }
+        if (scored.length === 0) break;
+
+        // A partially searched iteration is still usable: the previous best move
+        // is searched first with a full window, so any move ranked above it has
+        // proven better at this depth.
+        scored.sort((a, b) => b.score - a.score);
+        best = { move: scored[0].candidate.move, score: scored[0].score, depth };
+        if (ctx.aborted || Math.abs(best.score) > MATE_SCORE / 2) break;
+        const searched = new Set(scored.map(s => s.candidate));
+        rootMoves = [...scored.map(s => s.candidate), ...rootMoves.filter(c => !searched.has(c))];
+    }
+    return { move: board.toMove(best.move), score: best.score, depth: best.depth, nodes: ctx.nodes };
+}
+
+/**
+ * Scores the best `lineCount` moves for the side to move in `position` and
+ * the line the search expects after each, deepening like searchBestMove.
+ * `onDepth` receives the analysis of every finished iteration; the deepest one
+ * is returned. Root moves that cannot reach the top lines are only searched
+ * against the worst line kept so far, so their scores are never reported.
+ */
+export function analysePosition(
+    position: Position,
+    limits: SearchLimits,
+    lineCount: number,
+    onDepth?: (analysis: PositionAnalysis) => void
+): PositionAnalysis {
+    const board = FastBoard.fromBoardState(position.board, position.turn, position.enPassant);
+    const ctx = createContext(board, limits);
+    const legal = new Set(board.legalMoves());
+    let rootMoves = orderedMoves(board, false).filter(move => legal.has(move));
+    let analysis: PositionAnalysis = { lines: [], depth: 0, nodes: 0 };
+
+    for (let depth = 1; depth <= limits.maxDepth && rootMoves.length > 0; depth++) {
+        const scored: { line: number[]; score: number }[] = [];
+        for (const move of rootMoves) {
+            const floor = scored.length >= lineCount ? scored[lineCount - 1].score : -INFINITY;
+            board.makeMove(move);
+            const score = -negamax(depth - 1, -INFINITY, -floor, 1, ctx);
+            board.unmakeMove();
+            if (ctx.aborted) break;
+            const line = [move, ...(ctx.pvTable[1] ?? []).slice(0, ctx.pvLength[1])];
+            const below = scored.findIndex(s => s.score < score);
+            scored.splice(below === -1 ? scored.length : below, 0, { line, score });
+        }
+        // An unfinished iteration is only used when there is nothing better.
+        if (scored.length === 0 || (ctx.aborted && analysis.depth > 0)) break;
+
+        analysis = {
+            lines: scored.slice(0, lineCount).map(({ line, score }) => ({ moves: line.map(move => board.toMove(move)), score })),
+            depth,
+            nodes: ctx.nodes
+        };
+        onDepth?.(analysis);
+        if (ctx.aborted || Math.abs(scored[0].score) > MATE_SCORE / 2) break;
+        const searched = new Set(scored.map(s => s.line[0]));
+        rootMoves = [...scored.map(s => s.line[0]), ...rootMoves.filter(move => !searched.has(move))];
+    }
+    return analysis;
+}
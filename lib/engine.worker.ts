@@ -0,0 +1,15 @@
+import { analysePosition, searchBestMove } from './engine';
+import type { EngineRequest, EngineResponse } from './engineClient';
+
+// Runs the search off the main thread so the 3D scene keeps animating while
+// the computer is thinking or a position is being analysed.
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+    const { id, position, limits, lines } = event.data;
+    const post = (response: EngineResponse) => self.postMessage(response);
+    if (lines === undefined) {
+        post({ id, result: searchBestMove(position, limits) });
+        return;
+    }
+    const analysis = analysePosition(position, limits, lines, partial => post({ id, analysis: partial, final: false }));
+    post({ id, analysis, final: true });
+};
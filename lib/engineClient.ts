@@ -0,0 +1,94 @@
+import type { Position } from '../types';
+import type { PositionAnalysis, SearchLimits, SearchResult } from './engine';
+
+// A request with `lines` set asks for an analysis of that many candidate lines
+// instead of a best move.
+export interface EngineRequest {
+    id: number;
+    position: Position;
+    limits: SearchLimits;
+    lines?: number;
+}
+
+// Analyses are answered once per finished search depth; the last one is final.
+export type EngineResponse =
+    | { id: number; result: SearchResult }
+    | { id: number; analysis: PositionAnalysis; final: boolean };
+
+/**
+ * Main-thread handle on the engine Web Worker. Only one search runs at a time:
+ * starting a new one or calling cancel() abandons the previous search.
+ */
+export class EngineClient {
+    private worker: Worker;
+    private nextId = 0;
+    private pending: {
+        id: number;
+        resolve: (response: EngineResponse) => void;
+        reject: (error: Error) => void;
+        onAnalysis?: (analysis: PositionAnalysis) => void;
+    } | null = null;
+
+    constructor() {
+        this.worker = this.createWorker();
+    }
+
+    async search(position: Position, limits: SearchLimits): Promise<SearchResult> {
+        const response = await this.request({ position, limits });
+        if (!('result' in response)) throw new Error('Unexpected engine response');
+        return response.result;
+    }
+
+    // Resolves with the deepest analysis; `onAnalysis` also receives the
+    // shallower ones as they finish.
+    async analyse(position: Position, limits: SearchLimits, lines: number, onAnalysis?: (analysis: PositionAnalysis) => void): Promise<PositionAnalysis> {
+        const response = await this.request({ position, limits, lines }, onAnalysis);
+        if (!('analysis' in response)) throw new Error('Unexpected engine response');
+        return response.analysis;
+    }
+
+    // The search itself cannot be interrupted, so a busy worker is replaced.
+    cancel(): void {
+        if (!this.pending) return;
+        this.pending.reject(new Error('Search cancelled'));
+        this.pending = null;
+        this.worker.terminate();
+        this.worker = this.createWorker();
+    }
+
+    terminate(): void {
+        this.pending = null;
+        this.worker.terminate();
+    }
+
+    private request(request: Omit<EngineRequest, 'id'>, onAnalysis?: (analysis: PositionAnalysis) => void): Promise<EngineResponse> {
+        this.cancel();
+        const id = ++this.nextId;
+        return new Promise((resolve, reject) => {
+            this.pending = { id, resolve, reject, onAnalysis };
+            this.worker.postMessage({ id, ...request } satisfies EngineRequest);
+        });
+    }
+
+    private createWorker(): Worker {
+        const worker = new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<EngineResponse>) => {
+            const response = event.data;
+            if (!this.pending || response.id !== this.pending.id) return;
+            if ('analysis' in response) {
+                this.pending.onAnalysis?.(response.analysis);
+                if (!response.final) return;
+            }
+            const { resolve } = this.pending;
+            this.pending = null;
+            resolve(response);
+        };
+        worker.onerror = (event) => {
+            if (!this.pending) return;
+            const { reject } = this.pending;
+            this.pending = null;
+            reject(new Error(event.message || 'Engine worker failed'));
+        };
+        return worker;
+    }
+}
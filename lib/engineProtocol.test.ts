@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { fromPositionString, initialPosition, toPositionString } from './gameLogic';
+import { Game } from './game';
+import {
+    EngineProtocolServer,
+    formatEngineCommand,
+    formatEngineOutput,
+    parseEngineCommand,
+    parseEngineOutput
+} from './engineProtocol';
+import type { EngineCommand, EngineOutput, VolumetricEngine } from './engineProtocol';
+import { ProtocolEngineClient } from './engineProtocolClient';
+import { inProcessEngineLink } from './engineTransports';
+import { RANDOM_ENGINE } from './randomEngine';
+import { spawnEngineLink } from '../cli/stdioTransport';
+import { RAUMSCHACH_VARIANT } from './variants';
+
+const START = toPositionString(initialPosition());
+
+describe('engine protocol', () => {
+    it('round-trips commands and engine output through text', () => {
+        const commands: EngineCommand[] = [
+            { type: 'vci' },
+            { type: 'position', position: null, moves: ['e22e24', 'b18b26'] },
+            { type: 'position', position: START, moves: [] },
+            { type: 'go', limits: { depth: 3, movetimeMs: 500, nodes: 1000 } },
+            { type: 'go', limits: { infinite: true } },
+            { type: 'stop' }
+        ];
+        for (const command of commands) {
+            expect(parseEngineCommand(formatEngineCommand(command))).toEqual(command);
+        }
+        const outputs: EngineOutput[] = [
+            { type: 'id', field: 'name', value: 'Deep Cube 2' },
+            { type: 'info', info: { depth: 4, score: { cp: -35 }, nodes: 1234, timeMs: 56, pv: ['e22e24', 'e27e25'] } },
+            { type: 'info', info: { score: { mate: 3 }, string: 'mate found in 3' } },
+            { type: 'bestmove', move: 'e22e24' },
+            { type: 'bestmove', move: null }
+        ];
+        for (const output of outputs) {
+            expect(parseEngineOutput(formatEngineOutput(output))).toEqual(output);
+        }
+        expect(parseEngineCommand('go depth deep')).toBeNull();
+        expect(parseEngineCommand('position fen 8/8 w')).toBeNull();
+    });
+
+    it('serves an engine from the position it was given', async () => {
+        const lines: string[] = [];
+        const searched: string[] = [];
+        const engine: VolumetricEngine = {
+            name: 'Probe',
+            author: 'Tests',
+            async search(position) {
+                searched.push(toPositionString(position));
+                return null;
+            }
+        };
+        const server = new EngineProtocolServer(engine, line => lines.push(line));
+        ['vci', 'isready', 'position startpos moves e22e24', 'go', 'position fen bad w - 0 1', 'flip'].forEach(line => server.receive(line));
+        await new Promise(resolve => setTimeout(resolve));
+
+        const expected = new Game();
+        expected.applyMove({ from: { x: 4, y: 1, z: 1 }, x: 4, y: 1, z: 3, capture: false });
+        expect(searched).toEqual([expected.toPositionString()]);
+        expect(lines.slice(0, 4)).toEqual(['id name Probe', 'id author Tests', 'vciok', 'readyok']);
+        expect(lines).toContain('bestmove (none)');
+        expect(lines.filter(line => line.startsWith('info string'))).toHaveLength(2);
+    });
+
+    it('answers a go sent right after a stop once the stopped search is done', async () => {
+        const lines: string[] = [];
+        const searched: string[] = [];
+        const engine: VolumetricEngine = {
+            name: 'Stoppable',
+            author: 'Tests',
+            search: (position, _limits, _report, signal) => new Promise(resolve => {
+                searched.push(toPositionString(position));
+                const move = () => resolve(new Game(position).legalMoves()[0]);
+                if (signal.aborted) move();
+                signal.addEventListener('abort', move);
+            })
+        };
+        const server = new EngineProtocolServer(engine, line => lines.push(line));
+        ['position startpos', 'go', 'stop', 'position startpos moves e22e24', 'go', 'stop'].forEach(line => server.receive(line));
+        await new Promise(resolve => setTimeout(resolve));
+
+        const second = new Game();
+        second.applyMove({ from: { x: 4, y: 1, z: 1 }, x: 4, y: 1, z: 3, capture: false });
+        expect(searched).toEqual([START, second.toPositionString()]);
+        expect(lines.filter(line => line.startsWith('bestmove'))).toHaveLength(2);
+        expect(lines.filter(line => line.startsWith('info string'))).toEqual([]);
+    });
+
+    it('answers every go once however quickly stop and go follow each other', async () => {
+        const lines: string[] = [];
+        const engine: VolumetricEngine = {
+            name: 'Stoppable',
+            author: 'Tests',
+            search: (position, _limits, _report, signal) => new Promise(resolve => {
+                const move = () => resolve(new Game(position).legalMoves()[0]);
+                if (signal.aborted) move();
+                signal.addEventListener('abort', move);
+            })
+        };
+        const server = new EngineProtocolServer(engine, line => lines.push(line));
+        ['position startpos', 'go', 'stop', 'go', 'stop', 'go', 'stop'].forEach(line => server.receive(line));
+        await new Promise(resolve => setTimeout(resolve));
+        expect(lines.filter(line => line.startsWith('bestmove'))).toEqual(Array(3).fill('bestmove a12a13'));
+    });
+
+    it('plays random legal moves end to end in any variant', async () => {
+        const client = new ProtocolEngineClient(inProcessEngineLink(RANDOM_ENGINE));
+        expect(await client.ready()).toEqual({ name: 'Random mover', author: 'Volumetric Chess' });
+        const game = new Game(initialPosition(RAUMSCHACH_VARIANT));
+        for (let ply = 0; ply < 6; ply++) {
+            const infos: unknown[] = [];
+            const { move, info } = await client.search(game.position(), { depth: 1 }, i => infos.push(i));
+            expect(infos).toHaveLength(1);
+            expect(info.depth).toBe(1);
+            game.applyMove(move as Move);
+        }
+        expect(game.history()).toHaveLength(6);
+        client.close();
+    });
+
+    it('ignores the best move of an abandoned search', async () => {
+        const slow: VolumetricEngine = {
+            name: 'Slow',
+            author: 'Tests',
+            search: (position, _limits, _report, signal) => new Promise(resolve => {
+                signal.addEventListener('abort', () => resolve(null));
+                setTimeout(() => resolve(new Game(position).legalMoves()[0]), 20);
+            })
+        };
+        const client = new ProtocolEngineClient(inProcessEngineLink(slow));
+        const first = client.search(initialPosition(), {});
+        await client.ready();
+        const second = client.search(initialPosition(), {});
+        await expect(first).rejects.toThrow('cancelled');
+        expect((await second).move).not.toBeNull();
+        client.close();
+    });
+
+    it('rejects illegal best moves', async () => {
+        const cheat: VolumetricEngine = {
+            name: 'Cheat',
+            author: 'Tests',
+            search: async position => ({ ...new Game(position).legalMoves()[0], z: 7 })
+        };
+        const client = new ProtocolEngineClient(inProcessEngineLink(cheat));
+        await expect(client.search(initialPosition(), {})).rejects.toThrow('illegal');
+        client.close();
+    });
+
+    it('talks to an engine process over stdin and stdout', async () => {
+        const client = new ProtocolEngineClient(spawnEngineLink('node_modules/.bin/tsx', ['cli/randomEngine.ts']));
+        const position = fromPositionString(START);
+        const { move } = await client.search(position, { movetimeMs: 100 });
+        expect(new Game(position).legalMoves()).toContainEqual(move);
+        client.close();
+    }, 20_000);
+});
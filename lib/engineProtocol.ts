@@ -0,0 +1,304 @@
+import type { Move, Position } from '../types';
+import { fromPositionString, initialPosition } from './gameLogic';
+import { Game } from './game';
+import { moveToCoordinates, parseCoordinateMove } from './notation';
+
+// =====================================================================================
+// == VOLUMETRIC CHESS INTERFACE (VCI) ==
+// =====================================================================================
+//
+// A line-based text protocol between a user interface and a search engine,
+// modelled on UCI. Positions are position strings (see gameLogic.ts) and moves
+// are in coordinate notation (see notation.ts), so any board size works.
+//
+//   interface -> engine
+//     vci                                   identify; the engine answers id lines and vciok
+//     isready                               the engine answers readyok
+//     newgame                               forget anything kept from the previous game
+//     position startpos [moves <m>...]      the standard starting position
+//     position fen <position string> [moves <m>...]
+//     go [depth <n>] [movetime <ms>] [nodes <n>] [infinite]
+//     stop                                  end the search; the engine answers bestmove
+//     quit
+//
+//   engine -> interface
+//     id name <name>
+//     id author <author>
+//     vciok
+//     readyok
+//     info [depth <n>] [score cp <n> | score mate <n>] [nodes <n>] [time <ms>] [pv <m>...]
+//     info string <text>
+//     bestmove <m> | bestmove (none)
+//
+// Every go is answered by exactly one bestmove, also when it is stopped.
+// Unknown commands are ignored, as in UCI; invalid positions and moves are
+// reported with an info string.
+
+export interface GoLimits {
+    depth?: number;
+    movetimeMs?: number;
+    nodes?: number;
+    infinite?: boolean;
+}
+
+export interface EngineInfo {
+    depth?: number;
+    score?: { cp: number } | { mate: number };
+    nodes?: number;
+    timeMs?: number;
+    pv?: string[];
+    string?: string;
+}
+
+export type EngineCommand =
+    | { type: 'vci' }
+    | { type: 'isready' }
+    | { type: 'newgame' }
+    // `position` is a position string, or null for the standard starting position.
+    | { type: 'position'; position: string | null; moves: string[] }
+    | { type: 'go'; limits: GoLimits }
+    | { type: 'stop' }
+    | { type: 'quit' };
+
+export type EngineOutput =
+    | { type: 'id'; field: 'name' | 'author'; value: string }
+    | { type: 'vciok' }
+    | { type: 'readyok' }
+    | { type: 'info'; info: EngineInfo }
+    | { type: 'bestmove'; move: string | null };
+
+// The fields of a position string.
+const POSITION_FIELDS = 5;
+const INFO_KEYWORDS = ['depth', 'score', 'nodes', 'time', 'pv', 'string'];
+
+const isCount = (text: string | undefined) => text !== undefined && /^\d+$/.test(text);
+
+export function formatEngineCommand(command: EngineCommand): string {
+    switch (command.type) {
+        case 'position': {
+            const start = command.position === null ? 'startpos' : `fen ${command.position}`;
+            return `position ${start}${command.moves.length ? ` moves ${command.moves.join(' ')}` : ''}`;
+        }
+        case 'go': {
+            const { depth, movetimeMs, nodes, infinite } = command.limits;
+            return ['go',
+                ...(depth !== undefined ? ['depth', depth] : []),
+                ...(movetimeMs !== undefined ? ['movetime', movetimeMs] : []),
+                ...(nodes !== undefined ? ['nodes', nodes] : []),
+                ...(infinite ? ['infinite'] : [])
+            ].join(' ');
+        }
+        default:
+            return command.type;
+    }
+}
+
+export function parseEngineCommand(line: string): EngineCommand | null {
+    const [name, ...args] = line.trim().split(/\s+/);
+    switch (name) {
+        case 'vci':
+        case 'isready':
+        case 'newgame':
+        case 'stop':
+        case 'quit':
+            return { type: name };
+        case 'position': {
+            const movesAt = args.indexOf('moves');
+            const moves = movesAt === -1 ? [] : args.slice(movesAt + 1);
+            const setup = movesAt === -1 ? args : args.slice(0, movesAt);
+            if (setup.length === 1 && setup[0] === 'startpos') return { type: 'position', position: null, moves };
+            if (setup.length === POSITION_FIELDS + 1 && setup[0] === 'fen') return { type: 'position', position: setup.slice(1).join(' '), moves };
+            return null;
+        }
+        case 'go': {
+            const limits: GoLimits = {};
+            for (let i = 0; i < args.length; i++) {
+                const value = args[i + 1];
+                if (args[i] === 'infinite') limits.infinite = true;
+                else if (args[i] === 'depth' && isCount(value)) limits.depth = Number(args[++i]);
+                else if (args[i] === 'movetime' && isCount(value)) limits.movetimeMs = Number(args[++i]);
+                else if (args[i] === 'nodes' && isCount(value)) limits.nodes = Number(args[++i]);
+                else return null;
+            }
+            return { type: 'go', limits };
+        }
+        default:
+            return null;
+    }
+}
+
+export function formatEngineOutput(output: EngineOutput): string {
+    switch (output.type) {
+        case 'id':
+            return `id ${output.field} ${output.value}`;
+        case 'info': {
+            const { depth, score, nodes, timeMs, pv, string } = output.info;
+            const parts = ['info'];
+            if (depth !== undefined) parts.push('depth', String(depth));
+            if (score) parts.push('score', ...('cp' in score ? ['cp', String(score.cp)] : ['mate', String(score.mate)]));
+            if (nodes !== undefined) parts.push('nodes', String(nodes));
+            if (timeMs !== undefined) parts.push('time', String(timeMs));
+            if (pv?.length) parts.push('pv', ...pv);
+            // The free text runs to the end of the line, so it comes last.
+            if (string !== undefined) parts.push('string', string);
+            return parts.join(' ');
+        }
+        case 'bestmove':
+            return `bestmove ${output.move ?? '(none)'}`;
+        default:
+            return output.type;
+    }
+}
+
+export function parseEngineOutput(line: string): EngineOutput | null {
+    const trimmed = line.trim();
+    const [name, ...args] = trimmed.split(/\s+/);
+    switch (name) {
+        case 'id': {
+            const field = args[0];
+            if (field !== 'name' && field !== 'author') return null;
+            return { type: 'id', field, value: trimmed.replace(/^id\s+\w+\s*/, '') };
+        }
+        case 'vciok':
+        case 'readyok':
+            return { type: name };
+        case 'bestmove':
+            return args.length > 0 ? { type: 'bestmove', move: args[0] === '(none)' ? null : args[0] } : null;
+        case 'info':
+            return { type: 'info', info: parseInfo(trimmed, args) };
+        default:
+            return null;
+    }
+}
+
+function parseInfo(line: string, args: string[]): EngineInfo {
+    const info: EngineInfo = {};
+    for (let i = 0; i < args.length; i++) {
+        const keyword = args[i];
+        if (keyword === 'string') {
+            info.string = line.replace(/^.*?\bstring\s?/, '');
+            break;
+        }
+        if (keyword === 'pv') {
+            const end = args.findIndex((arg, j) => j > i && INFO_KEYWORDS.includes(arg));
+            info.pv = args.slice(i + 1, end === -1 ? undefined : end);
+            i = (end === -1 ? args.length : end) - 1;
+        } else if (keyword === 'score' && (args[i + 1] === 'cp' || args[i + 1] === 'mate')) {
+            const value = Number(args[i + 2]);
+            info.score = args[i + 1] === 'cp' ? { cp: value } : { mate: value };
+            i += 2;
+        } else if (keyword === 'depth' || keyword === 'nodes' || keyword === 'time') {
+            const value = Number(args[++i]);
+            if (keyword === 'depth') info.depth = value;
+            if (keyword === 'nodes') info.nodes = value;
+            if (keyword === 'time') info.timeMs = value;
+        }
+    }
+    return info;
+}
+
+/**
+ * A search engine that can be served over the protocol. `search` reports
+ * progress through `report` and must settle soon after `signal` is aborted,
+ * with the best move found so far.
+ */
+export interface VolumetricEngine {
+    name: string;
+    author: string;
+    search(position: Position, limits: GoLimits, report: (info: EngineInfo) => void, signal: AbortSignal): Promise<Move | null>;
+}
+
+/**
+ * The engine side of the protocol: reads command lines, keeps track of the
+ * position and runs the engine's searches. Transports feed it lines and pass
+ * its output on, see engineTransports.ts and cli/stdioTransport.ts.
+ */
+export class EngineProtocolServer {
+    private game = new Game();
+    // The latest search, running or waiting for the one before it to settle.
+    private search: AbortController | null = null;
+    private searches: Promise<void> = Promise.resolve();
+
+    constructor(
+        private engine: VolumetricEngine,
+        private send: (line: string) => void,
+        private onQuit: () => void = () => {}
+    ) {}
+
+    receive(line: string): void {
+        if (!line.trim()) return;
+        const command = parseEngineCommand(line);
+        if (!command) {
+            this.output({ type: 'info', info: { string: `Unknown command: ${line.trim()}` } });
+            return;
+        }
+        switch (command.type) {
+            case 'vci':
+                this.output({ type: 'id', field: 'name', value: this.engine.name });
+                this.output({ type: 'id', field: 'author', value: this.engine.author });
+                this.output({ type: 'vciok' });
+                return;
+            case 'isready':
+                this.output({ type: 'readyok' });
+                return;
+            case 'newgame':
+                this.search?.abort();
+                this.game = new Game();
+                return;
+            case 'position':
+                this.setPosition(command.position, command.moves);
+                return;
+            case 'go':
+                this.go(command.limits);
+                return;
+            case 'stop':
+                this.search?.abort();
+                return;
+            case 'quit':
+                this.search?.abort();
+                this.onQuit();
+                return;
+        }
+    }
+
+    private setPosition(position: string | null, moves: string[]): void {
+        try {
+            const game = new Game(position === null ? initialPosition() : fromPositionString(position));
+            for (const move of moves) {
+                game.applyMove(parseCoordinateMove(move, game.position()));
+            }
+            this.game = game;
+        } catch (error) {
+            this.output({ type: 'info', info: { string: `Invalid position: ${(error as Error).message}` } });
+        }
+    }
+
+    // A go that arrives while a stopped search is still settling waits for its
+    // bestmove, so that every go is answered by exactly one bestmove in turn.
+    private go(limits: GoLimits): void {
+        if (this.search && !this.search.signal.aborted) {
+            this.output({ type: 'info', info: { string: 'Already searching' } });
+            return;
+        }
+        const search = new AbortController();
+        const position = this.game.position();
+        this.search = search;
+        this.searches = this.searches.then(() => this.runSearch(position, limits, search));
+    }
+
+    private runSearch(position: Position, limits: GoLimits, search: AbortController): Promise<void> {
+        const finish = (move: Move | null) => {
+            if (this.search === search) this.search = null;
+            this.output({ type: 'bestmove', move: move && moveToCoordinates(move) });
+        };
+        return new Promise<Move | null>(resolve => resolve(this.engine.search(position, limits, info => this.output({ type: 'info', info }), search.signal)))
+            .then(finish, error => {
+                this.output({ type: 'info', info: { string: `Search failed: ${(error as Error).message}` } });
+                finish(null);
+            });
+    }
+
+    private output(output: EngineOutput): void {
+        this.send(formatEngineOutput(output));
+    }
+}
@@ -0,0 +1,115 @@
+import type { Move, Position } from '../types';
+import { toPositionString } from './gameLogic';
+import { parseCoordinateMove } from './notation';
+import { formatEngineCommand, parseEngineOutput } from './engineProtocol';
+import type { EngineCommand, EngineInfo, GoLimits } from './engineProtocol';
+
+// A two-way line channel to an engine: a Web Worker, a child process or, in
+// tests, an engine in the same thread.
+export interface EngineLink {
+    send(line: string): void;
+    onLine(listener: (line: string) => void): void;
+    close(): void;
+}
+
+export interface ProtocolSearchResult {
+    move: Move | null;
+    // The last info line the engine sent before its best move.
+    info: EngineInfo;
+}
+
+/**
+ * The interface side of the engine protocol (see engineProtocol.ts). Only one
+ * search runs at a time: starting a new one or calling cancel() abandons the
+ * previous search, whose best move is then ignored when it arrives.
+ */
+export class ProtocolEngineClient {
+    private handshake: Promise<{ name: string; author: string }>;
+    private identity = { name: '?', author: '?' };
+    private onHandshake: (() => void) | null = null;
+    private pending: {
+        position: Position;
+        onInfo?: (info: EngineInfo) => void;
+        lastInfo: EngineInfo;
+        resolve: (result: ProtocolSearchResult) => void;
+        reject: (error: Error) => void;
+    } | null = null;
+    // Best moves still owed for abandoned searches.
+    private abandoned = 0;
+
+    constructor(private link: EngineLink) {
+        link.onLine(line => this.receive(line));
+        this.handshake = new Promise(resolve => {
+            this.onHandshake = () => resolve(this.identity);
+        });
+        this.send({ type: 'vci' });
+    }
+
+    // The engine's name and author, once it has answered the handshake.
+    ready(): Promise<{ name: string; author: string }> {
+        return this.handshake;
+    }
+
+    async search(position: Position, limits: GoLimits, onInfo?: (info: EngineInfo) => void): Promise<ProtocolSearchResult> {
+        this.cancel();
+        await this.handshake;
+        this.cancel();
+        return new Promise((resolve, reject) => {
+            this.pending = { position, onInfo, lastInfo: {}, resolve, reject };
+            this.send({ type: 'position', position: toPositionString(position), moves: [] });
+            this.send({ type: 'go', limits });
+        });
+    }
+
+    cancel(): void {
+        if (!this.pending) return;
+        this.pending.reject(new Error('Search cancelled'));
+        this.pending = null;
+        this.abandoned++;
+        this.send({ type: 'stop' });
+    }
+
+    close(): void {
+        this.cancel();
+        this.send({ type: 'quit' });
+        this.link.close();
+    }
+
+    private send(command: EngineCommand): void {
+        this.link.send(formatEngineCommand(command));
+    }
+
+    private receive(line: string): void {
+        const output = parseEngineOutput(line);
+        if (!output) return;
+        switch (output.type) {
+            case 'id':
+                this.identity[output.field] = output.value;
+                return;
+            case 'vciok':
+                this.onHandshake?.();
+                this.onHandshake = null;
+                return;
+            case 'info':
+                if (!this.pending || this.abandoned > 0) return;
+                this.pending.lastInfo = output.info;
+                this.pending.onInfo?.(output.info);
+                return;
+            case 'bestmove': {
+                if (this.abandoned > 0) {
+                    this.abandoned--;
+                    return;
+                }
+                if (!this.pending) return;
+                const { position, lastInfo, resolve, reject } = this.pending;
+                this.pending = null;
+                try {
+                    resolve({ move: output.move && parseCoordinateMove(output.move, position), info: lastInfo });
+                } catch (error) {
+                    reject(new Error(`The engine played an illegal move: ${(error as Error).message}`));
+                }
+                return;
+            }
+        }
+    }
+}
@@ -0,0 +1,50 @@
+import { EngineProtocolServer } from './engineProtocol';
+import type { VolumetricEngine } from './engineProtocol';
+import type { EngineLink } from './engineProtocolClient';
+
+// Browser transports for the engine protocol: each protocol line travels as
+// one postMessage string. The Node transport over stdin/stdout lives in
+// cli/stdioTransport.ts.
+
+interface WorkerScope {
+    postMessage(line: string): void;
+    onmessage: ((event: MessageEvent<string>) => void) | null;
+    close(): void;
+}
+
+// Engine side: call from the top level of a Web Worker module.
+export function serveEngineInWorker(engine: VolumetricEngine): void {
+    const scope = self as unknown as WorkerScope;
+    const server = new EngineProtocolServer(engine, line => scope.postMessage(line), () => scope.close());
+    scope.onmessage = event => server.receive(event.data);
+}
+
+// Interface side of an engine running in `worker`.
+export function workerEngineLink(worker: Worker): EngineLink {
+    return {
+        send: line => worker.postMessage(line),
+        onLine: listener => worker.addEventListener('message', (event: MessageEvent<string>) => listener(event.data)),
+        close: () => worker.terminate()
+    };
+}
+
+// Runs an engine in the same thread. Lines are delivered asynchronously, like
+// the other transports do.
+export function inProcessEngineLink(engine: VolumetricEngine): EngineLink {
+    const listeners: ((line: string) => void)[] = [];
+    let closed = false;
+    const server = new EngineProtocolServer(engine, line => {
+        queueMicrotask(() => {
+            if (!closed) listeners.forEach(listener => listener(line));
+        });
+    });
+    return {
+        send: line => queueMicrotask(() => {
+            if (!closed) server.receive(line);
+        }),
+        onLine: listener => listeners.push(listener),
+        close: () => {
+            closed = true;
+        }
+    };
+}
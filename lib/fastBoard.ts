@@ -0,0 +1,460 @@
+import { SIZE } from '../types';
+import type { OrthodoxPieceType, Piece, BoardState, Move, Square } from '../types';
+import { STANDARD_VARIANT } from './variants';
+
+// =====================================================================================
+// == TYPED-ARRAY BOARD ==
+// =====================================================================================
+//
+// A performance-oriented mirror of BoardState for search and analysis. The board
+// is a flat Int8Array with one cell per square (index = x + SIZE * (y + SIZE * z)),
+// holding +code for white pieces, -code for black pieces and 0 for empty cells.
+// Ray, knight, king and pawn targets are precomputed once per square, king
+// squares are tracked incrementally, and moves are packed into integers so move
+// lists are plain number arrays. Moves are made and unmade in place.
+//
+// The rules are the same as in gameLogic.ts for the standard variant and the
+// orthodox pieces, the only ones the fast board supports; FastBoard.fromBoardState and toBoardState
+// convert between the two representations.
+
+export const CELL_COUNT = SIZE * SIZE * SIZE;
+
+export const WHITE = 1;
+export const BLACK = -1;
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+
+const PIECE_TYPES: OrthodoxPieceType[] = ['P', 'N', 'B', 'R', 'Q', 'K'];
+
+// Packed move layout: from (10 bits) | to (10 bits) | promotion code (3 bits) | flags
+const SQUARE_BITS = 10;
+const SQUARE_MASK = (1 << SQUARE_BITS) - 1;
+const PROMOTION_SHIFT = SQUARE_BITS * 2;
+const FLAG_CAPTURE = 1 << 23;
+const FLAG_CASTLE_KING = 1 << 24;
+const FLAG_CASTLE_QUEEN = 1 << 25;
+const FLAG_EN_PASSANT = 1 << 26;
+
+export function squareIndex(x: number, y: number, z: number): number {
+    return x + SIZE * (y + SIZE * z);
+}
+
+export function squareCoords(index: number): Square {
+    return { x: index % SIZE, y: Math.floor(index / SIZE) % SIZE, z: Math.floor(index / (SIZE * SIZE)) };
+}
+
+export function pieceCode(type: Piece['type']): number {
+    return PIECE_TYPES.indexOf(type as OrthodoxPieceType) + 1;
+}
+
+export function pieceType(code: number): Piece['type'] {
+    return PIECE_TYPES[Math.abs(code) - 1];
+}
+
+export function encodeMove(from: number, to: number, promotion = 0, flags = 0): number {
+    return from | (to << SQUARE_BITS) | (promotion << PROMOTION_SHIFT) | flags;
+}
+
+export const moveFrom = (move: number) => move & SQUARE_MASK;
+export const moveTo = (move: number) => (move >> SQUARE_BITS) & SQUARE_MASK;
+export const movePromotion = (move: number) => (move >> PROMOTION_SHIFT) & 7;
+export const isCaptureMove = (move: number) => (move & FLAG_CAPTURE) !== 0;
+export const isEnPassantMove = (move: number) => (move & FLAG_EN_PASSANT) !== 0;
+
+// --- Precomputed tables ---
+
+function isWithinBounds(x: number, y: number, z: number): boolean {
+    return x >= 0 && x < SIZE && y >= 0 && y < SIZE && z >= 0 && z < SIZE;
+}
+
+const DIRECTIONS: number[][] = [];
+for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+            if (dx !== 0 || dy !== 0 || dz !== 0) DIRECTIONS.push([dx, dy, dz]);
+        }
+    }
+}
+const IS_ORTHOGONAL = DIRECTIONS.map(([dx, dy, dz]) => Math.abs(dx) + Math.abs(dy) + Math.abs(dz) === 1);
+const ORTHOGONAL_DIRECTIONS = DIRECTIONS.map((_, d) => d).filter(d => IS_ORTHOGONAL[d]);
+const DIAGONAL_DIRECTIONS = DIRECTIONS.map((_, d) => d).filter(d => !IS_ORTHOGONAL[d]);
+
+const KNIGHT_OFFSETS: number[][] = [];
+for (const [a, b] of [[1, 2], [2, 1]]) {
+    for (const sa of [-a, a]) {
+        for (const sb of [-b, b]) {
+            KNIGHT_OFFSETS.push([sa, sb, 0], [sa, 0, sb], [0, sa, sb]);
+        }
+    }
+}
+
+function targetsFor(offsets: number[][]): Int16Array[] {
+    const table: Int16Array[] = [];
+    for (let sq = 0; sq < CELL_COUNT; sq++) {
+        const { x, y, z } = squareCoords(sq);
+        const targets = offsets
+            .filter(([dx, dy, dz]) => isWithinBounds(x + dx, y + dy, z + dz))
+            .map(([dx, dy, dz]) => squareIndex(x + dx, y + dy, z + dz));
+        table.push(Int16Array.from(targets));
+    }
+    return table;
+}
+
+// RAYS[sq][d] lists the squares from sq in direction d, nearest first.
+const RAYS: Int16Array[][] = [];
+for (let sq = 0; sq < CELL_COUNT; sq++) {
+    const { x, y, z } = squareCoords(sq);
+    RAYS.push(DIRECTIONS.map(([dx, dy, dz]) => {
+        const ray: number[] = [];
+        for (let k = 1; isWithinBounds(x + dx * k, y + dy * k, z + dz * k); k++) {
+            ray.push(squareIndex(x + dx * k, y + dy * k, z + dz * k));
+        }
+        return Int16Array.from(ray);
+    }));
+}
+
+const KNIGHT_TARGETS = targetsFor(KNIGHT_OFFSETS);
+const KING_TARGETS = targetsFor(DIRECTIONS);
+
+// Pawns move along z and capture onto any of the 8 cells diagonally ahead.
+const pawnCaptureOffsets = (dz: number) =>
+    DIRECTIONS.filter(([dx, dy, d]) => d === 0 && (dx !== 0 || dy !== 0)).map(([dx, dy]) => [dx, dy, dz]);
+const PAWN_CAPTURES_WHITE = targetsFor(pawnCaptureOffsets(1));
+const PAWN_CAPTURES_BLACK = targetsFor(pawnCaptureOffsets(-1));
+
+const pawnCaptures = (side: number) => side === WHITE ? PAWN_CAPTURES_WHITE : PAWN_CAPTURES_BLACK;
+const layerOf = (sq: number) => Math.floor(sq / (SIZE * SIZE));
+const sideIndex = (side: number) => side === WHITE ? 0 : 1;
+
+interface UndoEntry {
+    move: number;
+    captured: number;
+    fromMoved: number;
+    toMoved: number;
+    enPassant: number;
+}
+
+export class FastBoard {
+    readonly cells = new Int8Array(CELL_COUNT);
+    // 1 where the piece on the cell has moved; kept at 0 for empty cells.
+    readonly moved = new Uint8Array(CELL_COUNT);
+    // King squares indexed by side (0 = white, 1 = black), -1 if absent.
+    readonly kings = new Int16Array([-1, -1]);
+    side = WHITE;
+    // The cell skipped by a pawn double step on the previous ply, -1 if none.
+    enPassant = -1;
+    private undoStack: UndoEntry[] = [];
+
+    static fromBoardState(boardState: BoardState, turn: Piece['color'], enPassant: Square | null = null): FastBoard {
+        if (boardState.length !== SIZE) {
+            throw new Error(`The fast board only supports the standard ${SIZE}x${SIZE}x${SIZE} board`);
+        }
+        const board = new FastBoard();
+        for (let x = 0; x < SIZE; x++) {
+            for (let y = 0; y < SIZE; y++) {
+                for (let z = 0; z < SIZE; z++) {
+                    const piece = boardState[x][y][z];
+                    if (!piece) continue;
+                    if (pieceCode(piece.type) === 0) {
+                        throw new Error(`The fast board does not support the ${piece.type} piece`);
+                    }
+                    const sq = squareIndex(x, y, z);
+                    const side = piece.color === 'white' ? WHITE : BLACK;
+                    board.cells[sq] = pieceCode(piece.type) * side;
+                    board.moved[sq] = piece.hasMoved ? 1 : 0;
+                    if (piece.type === 'K') board.kings[sideIndex(side)] = sq;
+                }
+            }
+        }
+        board.side = turn === 'white' ? WHITE : BLACK;
+        board.enPassant = enPassant ? squareIndex(enPassant.x, enPassant.y, enPassant.z) : -1;
+        return board;
+    }
+
+    toBoardState(): BoardState {
+        const state: BoardState = Array(SIZE).fill(0).map(() =>
+            Array(SIZE).fill(0).map(() =>
+                Array(SIZE).fill(null)
+            )
+        );
+        for (let sq = 0; sq < CELL_COUNT; sq++) {
+            const code = this.cells[sq];
+            if (code === 0) continue;
+            const { x, y, z } = squareCoords(sq);
+            state[x][y][z] = {
+                type: pieceType(code),
+                color: code > 0 ? 'white' : 'black',
+                x, y, z,
+                hasMoved: this.moved[sq] === 1
+            };
+        }
+        return state;
+    }
+
+    turn(): Piece['color'] {
+        return this.side === WHITE ? 'white' : 'black';
+    }
+
+    // Attacks on a cell, as used for check and castling. En passant captures are
+    // left out since they can never take a king.
+    isAttacked(sq: number, bySide: number): boolean {
+        const cells = this.cells;
+        // Pawns attacking sq sit where a pawn of the other side would capture to.
+        const pawn = PAWN * bySide;
+        for (const t of pawnCaptures(-bySide)[sq]) if (cells[t] === pawn) return true;
+        const knight = KNIGHT * bySide;
+        for (const t of KNIGHT_TARGETS[sq]) if (cells[t] === knight) return true;
+        const king = KING * bySide;
+        for (const t of KING_TARGETS[sq]) if (cells[t] === king) return true;
+
+        const rays = RAYS[sq];
+        for (let d = 0; d < rays.length; d++) {
+            for (const t of rays[d]) {
+                const code = cells[t];
+                if (code === 0) continue;
+                if (code * bySide > 0) {
+                    const type = code * bySide;
+                    if (type === QUEEN || (type === ROOK && IS_ORTHOGONAL[d]) || (type === BISHOP && !IS_ORTHOGONAL[d])) return true;
+                }
+                break;
+            }
+        }
+        return false;
+    }
+
+    inCheck(side = this.side): boolean {
+        const king = this.kings[sideIndex(side)];
+        return king >= 0 && this.isAttacked(king, -side);
+    }
+
+    // Appends every pseudo-legal move of the side to move to `moves`.
+    generateMoves(moves: number[] = []): number[] {
+        const { cells, side } = this;
+        for (let sq = 0; sq < CELL_COUNT; sq++) {
+            const code = cells[sq] * side;
+            if (code <= 0) continue;
+            switch (code) {
+                case PAWN:
+                    this.generatePawnMoves(sq, moves);
+                    break;
+                case KNIGHT:
+                    this.generateLeaperMoves(sq, KNIGHT_TARGETS[sq], moves);
+                    break;
+                case BISHOP:
+                    this.generateRayMoves(sq, DIAGONAL_DIRECTIONS, moves);
+                    break;
+                case ROOK:
+                    this.generateRayMoves(sq, ORTHOGONAL_DIRECTIONS, moves);
+                    break;
+                case QUEEN:
+                    this.generateRayMoves(sq, ORTHOGONAL_DIRECTIONS, moves);
+                    this.generateRayMoves(sq, DIAGONAL_DIRECTIONS, moves);
+                    break;
+                case KING:
+                    this.generateLeaperMoves(sq, KING_TARGETS[sq], moves);
+                    this.generateCastlingMoves(sq, moves);
+                    break;
+            }
+        }
+        return moves;
+    }
+
+    legalMoves(): number[] {
+        const side = this.side;
+        return this.generateMoves().filter(move => {
+            this.makeMove(move);
+            const legal = !this.inCheck(side);
+            this.unmakeMove();
+            return legal;
+        });
+    }
+
+    makeMove(move: number): void {
+        const from = moveFrom(move);
+        const to = moveTo(move);
+        const { cells, moved } = this;
+        const piece = cells[from];
+        this.undoStack.push({ move, captured: cells[to], fromMoved: moved[from], toMoved: moved[to], enPassant: this.enPassant });
+
+        const promotion = movePromotion(move);
+        cells[to] = promotion ? promotion * this.side : piece;
+        cells[from] = 0;
+        moved[to] = 1;
+        moved[from] = 0;
+        this.enPassant = -1;
+        if (piece * this.side === PAWN) {
+            if (move & FLAG_EN_PASSANT) {
+                const capturedSquare = this.enPassantCaptureSquare(move);
+                cells[capturedSquare] = 0;
+                moved[capturedSquare] = 0;
+            } else if (Math.abs(to - from) === 2 * SIZE * SIZE) {
+                this.enPassant = (from + to) / 2;
+            }
+        }
+        if (piece * this.side === KING) {
+            this.kings[sideIndex(this.side)] = to;
+            if (move & (FLAG_CASTLE_KING | FLAG_CASTLE_QUEEN)) {
+                const [rookFrom, rookTo] = this.castlingRookSquares(move);
+                cells[rookTo] = cells[rookFrom];
+                cells[rookFrom] = 0;
+                moved[rookTo] = 1;
+                moved[rookFrom] = 0;
+            }
+        }
+        this.side = -this.side;
+    }
+
+    unmakeMove(): void {
+        const entry = this.undoStack.pop();
+        if (!entry) return;
+        this.side = -this.side;
+        const { move, captured, fromMoved, toMoved, enPassant } = entry;
+        const from = moveFrom(move);
+        const to = moveTo(move);
+        const { cells, moved } = this;
+
+        const piece = movePromotion(move) ? PAWN * this.side : cells[to];
+        cells[from] = piece;
+        cells[to] = captured;
+        moved[from] = fromMoved;
+        moved[to] = toMoved;
+        this.enPassant = enPassant;
+        if (move & FLAG_EN_PASSANT) {
+            // Only a pawn that has just made its double step can be taken.
+            const capturedSquare = this.enPassantCaptureSquare(move);
+            cells[capturedSquare] = -PAWN * this.side;
+            moved[capturedSquare] = 1;
+        }
+        if (piece * this.side === KING) {
+            this.kings[sideIndex(this.side)] = from;
+            if (move & (FLAG_CASTLE_KING | FLAG_CASTLE_QUEEN)) {
+                // Castling needs an unmoved rook, so its flag goes back to 0.
+                const [rookFrom, rookTo] = this.castlingRookSquares(move);
+                cells[rookFrom] = cells[rookTo];
+                cells[rookTo] = 0;
+                moved[rookFrom] = 0;
+                moved[rookTo] = 0;
+            }
+        }
+    }
+
+    // Converts a packed move to the Move shape used by the rest of the app.
+    toMove(move: number): Move {
+        const { x, y, z } = squareCoords(moveTo(move));
+        const result: Move = { from: squareCoords(moveFrom(move)), x, y, z, capture: isCaptureMove(move) };
+        if (move & FLAG_CASTLE_KING) result.castle = 'king';
+        if (move & FLAG_CASTLE_QUEEN) result.castle = 'queen';
+        if (move & FLAG_EN_PASSANT) result.enPassant = true;
+        const promotion = movePromotion(move);
+        if (promotion) result.promotion = pieceType(promotion);
+        return result;
+    }
+
+    fromMove(move: Move): number {
+        let flags = move.capture ? FLAG_CAPTURE : 0;
+        if (move.castle === 'king') flags |= FLAG_CASTLE_KING;
+        if (move.castle === 'queen') flags |= FLAG_CASTLE_QUEEN;
+        if (move.enPassant) flags |= FLAG_EN_PASSANT;
+        const from = squareIndex(move.from.x, move.from.y, move.from.z);
+        const to = squareIndex(move.x, move.y, move.z);
+        return encodeMove(from, to, move.promotion ? pieceCode(move.promotion) : 0, flags);
+    }
+
+    private castlingRookSquares(move: number): [number, number] {
+        const to = moveTo(move);
+        return move & FLAG_CASTLE_KING
+            ? [to + (SIZE - 1 - (to % SIZE)), to - 1]
+            : [to - (to % SIZE), to + 1];
+    }
+
+    // The captured pawn sits on the target's file and rank, in the mover's layer.
+    private enPassantCaptureSquare(move: number): number {
+        const to = moveTo(move);
+        return to - (layerOf(to) - layerOf(moveFrom(move))) * SIZE * SIZE;
+    }
+
+    private generatePawnMoves(sq: number, moves: number[]): void {
+        const { cells, side } = this;
+        const z = layerOf(sq);
+        const forward = side * SIZE * SIZE;
+        const lastLayer = side === WHITE ? SIZE - 1 : 0;
+        const startLayer = side === WHITE ? 1 : SIZE - 2;
+
+        const addPawnMove = (to: number, flags: number) => {
+            if (layerOf(to) === lastLayer) {
+                for (const promotion of [QUEEN, ROOK, BISHOP, KNIGHT]) moves.push(encodeMove(sq, to, promotion, flags));
+            } else {
+                moves.push(encodeMove(sq, to, 0, flags));
+            }
+        };
+
+        const oneStep = sq + forward;
+        if (z !== lastLayer && cells[oneStep] === 0) {
+            addPawnMove(oneStep, 0);
+            const twoSteps = oneStep + forward;
+            if (z === startLayer && cells[twoSteps] === 0) addPawnMove(twoSteps, 0);
+        }
+        for (const to of pawnCaptures(side)[sq]) {
+            if (cells[to] * side < 0) addPawnMove(to, FLAG_CAPTURE);
+            else if (to === this.enPassant) addPawnMove(to, FLAG_CAPTURE | FLAG_EN_PASSANT);
+        }
+    }
+
+    private generateLeaperMoves(sq: number, targets: Int16Array, moves: number[]): void {
+        const { cells, side } = this;
+        for (const to of targets) {
+            const code = cells[to] * side;
+            if (code === 0) moves.push(encodeMove(sq, to));
+            else if (code < 0) moves.push(encodeMove(sq, to, 0, FLAG_CAPTURE));
+        }
+    }
+
+    private generateRayMoves(sq: number, directions: number[], moves: number[]): void {
+        const { cells, side } = this;
+        const rays = RAYS[sq];
+        for (const d of directions) {
+            for (const to of rays[d]) {
+                const code = cells[to] * side;
+                if (code === 0) {
+                    moves.push(encodeMove(sq, to));
+                    continue;
+                }
+                if (code < 0) moves.push(encodeMove(sq, to, 0, FLAG_CAPTURE));
+                break;
+            }
+        }
+    }
+
+    // Mirrors the castling rule of calculateValidMoves: an unmoved king on its
+    // castling row of the standard variant moves two cells towards an unmoved
+    // rook in the row's end cell, at least three cells away. The cells between
+    // them must be empty and the king may not cross or land on an attacked cell.
+    private generateCastlingMoves(sq: number, moves: number[]): void {
+        const { cells, moved, side } = this;
+        const { x, y, z } = squareCoords(sq);
+        const home = STANDARD_VARIANT.castling?.[this.turn()];
+        if (moved[sq] || !home || y !== home.y || z !== home.z || this.inCheck(side)) return;
+        const rook = ROOK * side;
+        const rowStart = squareIndex(0, y, z);
+        const isEmpty = (cx: number) => cells[rowStart + cx] === 0;
+        const isSafe = (cx: number) => !this.isAttacked(rowStart + cx, -side);
+
+        const castleTowards = (rookX: number, flag: number) => {
+            const rookSq = rowStart + rookX;
+            if (cells[rookSq] !== rook || moved[rookSq] || Math.abs(rookX - x) < 3) return;
+            const dir = Math.sign(rookX - x);
+            for (let cx = x + dir; cx !== rookX; cx += dir) {
+                if (!isEmpty(cx)) return;
+            }
+            if (!isSafe(x + dir) || !isSafe(x + 2 * dir)) return;
+            moves.push(encodeMove(sq, squareIndex(x + 2 * dir, y, z), 0, flag));
+        };
+        castleTowards(SIZE - 1, FLAG_CASTLE_KING);
+        castleTowards(0, FLAG_CASTLE_QUEEN);
+    }
+}
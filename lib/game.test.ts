@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { Position } from '../types';
+import { Game } from './game';
+import { exportGameRecord, importGameRecord } from './gameRecord';
+import { positionWith } from './testBoards';
+import type { PieceSpec } from './testBoards';
+import { STANDARD_VARIANT } from './variants';
+
+// White to move on move 60 with the given halfmove clock.
+function positionAt(halfmoveClock: number, ...specs: PieceSpec[]): Position {
+    return { ...positionWith(STANDARD_VARIANT, ...specs), halfmoveClock, fullmoveNumber: 60 };
+}
+
+const move = (from: [number, number, number], to: [number, number, number]) =>
+    ({ from: { x: from[0], y: from[1], z: from[2] }, x: to[0], y: to[1], z: to[2], capture: false });
+
+// Both queenside knights jump out and back, returning to the initial position.
+const KNIGHT_SHUFFLE = [
+    move([1, 0, 0], [1, 1, 2]),
+    move([1, 0, 7], [1, 1, 5]),
+    move([1, 1, 2], [1, 0, 0]),
+    move([1, 1, 5], [1, 0, 7])
+];
+
+describe('draw rules', () => {
+    it('draws on the third occurrence of a position', () => {
+        const game = new Game();
+        [...KNIGHT_SHUFFLE, ...KNIGHT_SHUFFLE].forEach((m, ply) => {
+            game.applyMove(m);
+            expect(game.status().state).toBe(ply === 7 ? 'draw' : 'active');
+        });
+        expect(game.status()).toEqual({ state: 'draw', reason: 'repetition' });
+        expect(game.legalMoves()).toHaveLength(0);
+    });
+
+    it('forgets repetitions that were undone', () => {
+        const game = new Game();
+        KNIGHT_SHUFFLE.forEach(m => game.applyMove(m));
+        game.goToPly(0);
+        KNIGHT_SHUFFLE.forEach(m => game.applyMove(m));
+        expect(game.status().state).toBe('active');
+    });
+
+    it('draws after a hundred plies without a capture or pawn move', () => {
+        const game = new Game(positionAt(99, ['K', 'white', 0, 0, 0], ['R', 'white', 7, 0, 0], ['P', 'white', 4, 4, 2], ['K', 'black', 7, 7, 7]));
+        game.applyMove(move([7, 0, 0], [7, 0, 1]));
+        expect(game.status()).toEqual({ state: 'draw', reason: 'fifty-move' });
+    });
+
+    it('resets the halfmove clock on pawn moves', () => {
+        const game = new Game(positionAt(99, ['K', 'white', 0, 0, 0], ['R', 'white', 7, 0, 0], ['P', 'white', 4, 4, 2], ['K', 'black', 7, 7, 7]));
+        game.applyMove(move([4, 4, 2], [4, 4, 3]));
+        expect(game.position().halfmoveClock).toBe(0);
+        expect(game.status().state).toBe('active');
+    });
+
+    it('lets checkmate stand over the fifty-move rule', () => {
+        const game = new Game(positionAt(99, ['K', 'white', 7, 7, 0], ['Q', 'white', 1, 1, 5], ['R', 'white', 1, 1, 0], ['K', 'black', 0, 0, 7]));
+        game.applyMove(move([1, 1, 5], [1, 1, 6]));
+        expect(game.status()).toEqual({ state: 'checkmate', winner: 'white' });
+    });
+
+    it('draws when neither side can ever checkmate', () => {
+        for (const type of ['N', 'B', 'R'] as const) {
+            const game = new Game(positionAt(0, ['K', 'white', 0, 0, 0], [type, 'white', 4, 4, 4], ['K', 'black', 7, 7, 7]));
+            expect(game.status()).toEqual({ state: 'draw', reason: 'insufficient-material' });
+        }
+        const queen = new Game(positionAt(0, ['K', 'white', 0, 0, 0], ['Q', 'white', 4, 4, 4], ['K', 'black', 7, 7, 7]));
+        expect(queen.status().state).toBe('active');
+        const knights = new Game(positionAt(0, ['K', 'white', 0, 0, 0], ['N', 'white', 4, 4, 4], ['N', 'white', 4, 4, 5], ['K', 'black', 7, 7, 7]));
+        expect(knights.status().state).toBe('active');
+    });
+});
+
+describe('draw offers and resignation', () => {
+    it('records an offer until it is answered', () => {
+        const game = new Game();
+        game.offerDraw();
+        expect(game.status()).toEqual({ state: 'active', drawOfferedBy: 'white' });
+        expect(() => game.offerDraw()).toThrow();
+        game.declineDraw();
+        expect(game.status()).toEqual({ state: 'active' });
+        expect(() => game.acceptDraw()).toThrow();
+    });
+
+    it('ends the game when an offer is accepted', () => {
+        const game = new Game();
+        game.offerDraw();
+        game.acceptDraw();
+        expect(game.status()).toEqual({ state: 'draw', reason: 'agreement' });
+        expect(() => game.applyMove(KNIGHT_SHUFFLE[0])).toThrow();
+    });
+
+    it('lets an unanswered offer lapse when the next move is played', () => {
+        const game = new Game();
+        game.offerDraw();
+        game.applyMove(KNIGHT_SHUFFLE[0]);
+        expect(game.status()).toEqual({ state: 'active' });
+        game.undo();
+        expect(game.status()).toEqual({ state: 'active', drawOfferedBy: 'white' });
+    });
+
+    it('awards the game to the opponent of the resigning side', () => {
+        const game = new Game();
+        game.applyMove(KNIGHT_SHUFFLE[0]);
+        game.resign('white');
+        expect(game.status()).toEqual({ state: 'resigned', winner: 'black' });
+        expect(game.legalMoves()).toHaveLength(0);
+        expect(() => game.resign()).toThrow();
+    });
+
+    it('survives a game record round trip', () => {
+        const resigned = new Game();
+        resigned.applyMove(KNIGHT_SHUFFLE[0]);
+        resigned.resign('black');
+        const text = exportGameRecord(resigned);
+        expect(text).toContain('[Result "1-0"]');
+        expect(importGameRecord(text).game.status()).toEqual({ state: 'resigned', winner: 'white' });
+
+        const agreed = new Game();
+        agreed.offerDraw();
+        agreed.acceptDraw();
+        expect(importGameRecord(exportGameRecord(agreed)).game.status()).toEqual({ state: 'draw', reason: 'agreement' });
+    });
+});
@@ -0,0 +1,324 @@
+import type { Piece, BoardState, Move, GameStatus, Position, Square, Variant } from '../types';
+import {
+    calculateLegalMoves,
+    enPassantCaptureSquare,
+    enPassantTarget,
+    fromPositionString,
+    getCastlingRights,
+    getGameStatus,
+    hasInsufficientMaterial,
+    hasInsufficientMatingMaterial,
+    initialPosition,
+    isGameOver,
+    isPromotionMove,
+    pendingDrawOffer,
+    simulateMove,
+    toPositionString,
+    FIFTY_MOVE_PLIES,
+    PROMOTION_PIECES
+} from './gameLogic';
+import { moveToNotation } from './notation';
+import { hashPosition } from './zobrist';
+
+export interface CapturedPieces {
+    white: Piece[];
+    black: Piece[];
+}
+
+export interface CastlingRights {
+    white: { king: boolean; queen: boolean };
+    black: { king: boolean; queen: boolean };
+}
+
+export interface MoveRecord {
+    piece: Piece;
+    move: Move;
+    captured: Piece | null;
+    notation: string;
+    // The mover's remaining clock time after the move, in timed games.
+    clockMs?: number;
+}
+
+interface GameState extends Position {
+    captured: CapturedPieces;
+    status: GameStatus;
+    hash: bigint;
+}
+
+// Rule-based draws are applied automatically as soon as they occur, unless the
+// move also gave checkmate.
+function statusOf(position: Position, repetitions: number): GameStatus {
+    const status = getGameStatus(position.turn, position.board, position.enPassant, position.variant);
+    if (isGameOver(status)) return status;
+    if (repetitions >= 3) return { state: 'draw', reason: 'repetition' };
+    if (position.halfmoveClock >= FIFTY_MOVE_PLIES) return { state: 'draw', reason: 'fifty-move' };
+    if (hasInsufficientMaterial(position.board)) return { state: 'draw', reason: 'insufficient-material' };
+    return status;
+}
+
+/**
+ * Headless volumetric chess game. Owns the position and enforces the rules, so
+ * the UI, bots and tests can all drive a game without mounting any component.
+ * Every applied move produces a fresh board, previous boards are never mutated,
+ * which is what lets the game keep its whole history for undo/redo.
+ */
+export class Game {
+    // states[i] is the position after i plies; cursor is the one on display.
+    private states: GameState[];
+    private moves: MoveRecord[] = [];
+    private cursor = 0;
+
+    constructor(position: Position = initialPosition()) {
+        this.states = [{
+            ...position,
+            captured: { white: [], black: [] },
+            status: statusOf(position, 1),
+            hash: hashPosition(position)
+        }];
+    }
+
+    static fromPositionString(text: string): Game {
+        return new Game(fromPositionString(text));
+    }
+
+    private get state(): GameState {
+        return this.states[this.cursor];
+    }
+
+    board(): BoardState {
+        return this.state.board;
+    }
+
+    turn(): Piece['color'] {
+        return this.state.turn;
+    }
+
+    variant(): Variant {
+        return this.state.variant;
+    }
+
+    position(): Position {
+        const { variant, board, turn, enPassant, halfmoveClock, fullmoveNumber } = this.state;
+        return { variant, board, turn, enPassant, halfmoveClock, fullmoveNumber };
+    }
+
+    // The position the game started from, before any recorded move.
+    startPosition(): Position {
+        const { variant, board, turn, enPassant, halfmoveClock, fullmoveNumber } = this.states[0];
+        return { variant, board, turn, enPassant, halfmoveClock, fullmoveNumber };
+    }
+
+    toPositionString(): string {
+        return toPositionString(this.position());
+    }
+
+    capturedPieces(): CapturedPieces {
+        return this.state.captured;
+    }
+
+    status(): GameStatus {
+        return this.state.status;
+    }
+
+    pieceAt(square: Square): Piece | null {
+        return this.state.board[square.x][square.y][square.z];
+    }
+
+    castlingRights(): CastlingRights {
+        return {
+            white: getCastlingRights('white', this.state.board, this.state.variant),
+            black: getCastlingRights('black', this.state.board, this.state.variant)
+        };
+    }
+
+    // Legal moves of a single piece, one per target cell. Promotions are left
+    // open so the caller can ask which piece to promote to.
+    legalMovesFor(piece: Piece): Move[] {
+        if (piece.color !== this.state.turn || isGameOver(this.state.status)) return [];
+        return calculateLegalMoves(piece, this.state.board, this.state.enPassant, this.state.variant);
+    }
+
+    // Every legal move of the side to move, with one entry per promotion choice.
+    legalMoves(): Move[] {
+        const moves: Move[] = [];
+        for (const piece of this.piecesOf(this.state.turn)) {
+            for (const move of this.legalMovesFor(piece)) {
+                if (isPromotionMove(piece, move, this.state.variant)) {
+                    moves.push(...PROMOTION_PIECES.map(promotion => ({ ...move, promotion })));
+                } else {
+                    moves.push(move);
+                }
+            }
+        }
+        return moves;
+    }
+
+    /**
+     * Plays a move for the side to move. Only `from`, the target cell and, for
+     * promotions, `promotion` are read; the rest is taken from the legal move
+     * list. Throws if the move is not legal. `clockMs` is the mover's clock
+     * time after the move, kept with the move record in timed games.
+     */
+    applyMove(move: Move, clockMs?: number): Move {
+        const piece = this.pieceAt(move.from);
+        if (!piece) {
+            throw new Error(`No piece at ${move.from.x},${move.from.y},${move.from.z}`);
+        }
+        const legalMove = this.legalMovesFor(piece).find(m => m.x === move.x && m.y === move.y && m.z === move.z);
+        if (!legalMove) {
+            throw new Error(`Illegal move ${move.from.x},${move.from.y},${move.from.z} -> ${move.x},${move.y},${move.z}`);
+        }
+
+        let playedMove = legalMove;
+        if (isPromotionMove(piece, legalMove, this.state.variant)) {
+            if (!move.promotion || !PROMOTION_PIECES.includes(move.promotion)) {
+                throw new Error('A promotion move needs a promotion piece (Q, R, B or N)');
+            }
+            playedMove = { ...legalMove, promotion: move.promotion };
+        }
+
+        const { variant, board, turn, captured, halfmoveClock, fullmoveNumber } = this.state;
+        const capturedSquare = playedMove.enPassant ? enPassantCaptureSquare(playedMove, variant) : playedMove;
+        const targetPiece = board[capturedSquare.x][capturedSquare.y][capturedSquare.z];
+        const nextBoard = simulateMove(piece, playedMove, board, variant);
+        const nextPosition: Position = {
+            variant,
+            board: nextBoard,
+            turn: turn === 'white' ? 'black' : 'white',
+            enPassant: enPassantTarget(piece, playedMove),
+            halfmoveClock: targetPiece || piece.type === 'P' ? 0 : halfmoveClock + 1,
+            fullmoveNumber: turn === 'black' ? fullmoveNumber + 1 : fullmoveNumber
+        };
+        const hash = hashPosition(nextPosition);
+        const repetitions = 1 + this.states.slice(0, this.cursor + 1).filter(s => s.hash === hash).length;
+        const nextStatus = statusOf(nextPosition, repetitions);
+
+        // Playing a move from an earlier ply discards the moves after it.
+        this.states = this.states.slice(0, this.cursor + 1);
+        this.moves = this.moves.slice(0, this.cursor);
+        this.states.push({
+            ...nextPosition,
+            captured: targetPiece
+                ? { ...captured, [targetPiece.color]: [...captured[targetPiece.color], targetPiece] }
+                : captured,
+            status: nextStatus,
+            hash
+        });
+        this.moves.push({
+            piece,
+            move: playedMove,
+            captured: targetPiece,
+            notation: moveToNotation(playedMove, this.position(), nextStatus),
+            ...(clockMs !== undefined && { clockMs })
+        });
+        this.cursor++;
+        return playedMove;
+    }
+
+    // The side to move may offer a draw; the offer stands until the opponent
+    // accepts or declines it, or until the next move is played.
+    offerDraw(): void {
+        const status = this.state.status;
+        if (status.state !== 'active' && status.state !== 'check') {
+            throw new Error('The game is already over');
+        }
+        if (pendingDrawOffer(status)) {
+            throw new Error(`${status.drawOfferedBy} has already offered a draw`);
+        }
+        this.replaceStatus({ ...status, drawOfferedBy: this.state.turn });
+    }
+
+    acceptDraw(): void {
+        this.openDrawOffer();
+        this.replaceStatus({ state: 'draw', reason: 'agreement' });
+    }
+
+    declineDraw(): void {
+        const { drawOfferedBy: _, ...status } = this.openDrawOffer();
+        this.replaceStatus(status);
+    }
+
+    resign(color: Piece['color'] = this.state.turn): void {
+        if (isGameOver(this.state.status)) {
+            throw new Error('The game is already over');
+        }
+        this.replaceStatus({ state: 'resigned', winner: color === 'white' ? 'black' : 'white' });
+    }
+
+    // The side to move ran out of time. That loses, unless the opponent could
+    // never checkmate, in which case the game is drawn.
+    flag(): void {
+        if (isGameOver(this.state.status)) {
+            throw new Error('The game is already over');
+        }
+        const winner = this.state.turn === 'white' ? 'black' : 'white';
+        this.replaceStatus(hasInsufficientMatingMaterial(winner, this.state.board)
+            ? { state: 'draw', reason: 'timeout-vs-insufficient-material' }
+            : { state: 'timeout', winner });
+    }
+
+    // All recorded moves, including the ones after the current ply that redo
+    // would replay.
+    history(): MoveRecord[] {
+        return this.moves;
+    }
+
+    ply(): number {
+        return this.cursor;
+    }
+
+    canUndo(): boolean {
+        return this.cursor > 0;
+    }
+
+    canRedo(): boolean {
+        return this.cursor < this.moves.length;
+    }
+
+    undo(): void {
+        if (this.canUndo()) this.cursor--;
+    }
+
+    redo(): void {
+        if (this.canRedo()) this.cursor++;
+    }
+
+    goToPly(ply: number): void {
+        if (ply < 0 || ply > this.moves.length) {
+            throw new Error(`Ply ${ply} is outside the recorded game (0-${this.moves.length})`);
+        }
+        this.cursor = ply;
+    }
+
+    clone(): Game {
+        // States and records are immutable, so the copy can share them.
+        const copy = Object.create(Game.prototype) as Game;
+        copy.states = this.states;
+        copy.moves = this.moves;
+        copy.cursor = this.cursor;
+        return copy;
+    }
+
+    private piecesOf(color: Piece['color']): Piece[] {
+        const pieces: Piece[] = [];
+        this.state.board.forEach(plane => plane.forEach(row => row.forEach(piece => {
+            if (piece && piece.color === color) pieces.push(piece);
+        })));
+        return pieces;
+    }
+
+    private openDrawOffer(): Extract<GameStatus, { state: 'active' | 'check' }> {
+        const status = this.state.status;
+        if (!pendingDrawOffer(status) || (status.state !== 'active' && status.state !== 'check')) {
+            throw new Error('There is no draw offer to answer');
+        }
+        return status;
+    }
+
+    // Offers, agreed draws, resignations and flag falls change the status of
+    // the ply on display. Like a move, they discard any moves after it.
+    private replaceStatus(status: GameStatus): void {
+        this.states = [...this.states.slice(0, this.cursor), { ...this.state, status }];
+        this.moves = this.moves.slice(0, this.cursor);
+    }
+}
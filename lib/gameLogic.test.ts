@@ -0,0 +1,322 @@
+import { describe, expect, it } from 'vitest';
+import { SIZE } from '../types';
+import type { BoardState, Move, Piece } from '../types';
+import {
+    calculateLegalMoves,
+    calculateValidMoves,
+    fromPositionString,
+    getGameStatus,
+    initialPosition,
+    initializeBoardState,
+    isKingInCheck,
+    isPromotionMove,
+    isSquareAttacked,
+    simulateMove,
+    toPositionString
+} from './gameLogic';
+import { Game } from './game';
+import { parseMove } from './notation';
+import { PIECES } from './pieces';
+import { boardWith } from './testBoards';
+import type { PieceSpec } from './testBoards';
+import { STANDARD_VARIANT } from './variants';
+
+function pieceAt(board: BoardState, x: number, y: number, z: number): Piece {
+    const piece = board[x][y][z];
+    if (!piece) throw new Error(`No piece at ${x},${y},${z}`);
+    return piece;
+}
+
+function targets(moves: Move[]): string[] {
+    return moves.map(m => `${m.x},${m.y},${m.z}`).sort();
+}
+
+describe('initializeBoardState', () => {
+    it('sets up two layers of pieces per side', () => {
+        const pieces = initializeBoardState().flat(2).filter((p): p is Piece => p !== null);
+        const white = pieces.filter(p => p.color === 'white');
+        const black = pieces.filter(p => p.color === 'black');
+        expect(white).toHaveLength(2 * SIZE * SIZE);
+        expect(black).toHaveLength(2 * SIZE * SIZE);
+        expect(white.filter(p => p.type === 'K')).toHaveLength(1);
+        expect(black.filter(p => p.type === 'K')).toHaveLength(1);
+        expect(white.filter(p => p.type === 'P').every(p => p.z === 1)).toBe(true);
+        expect(black.filter(p => p.type === 'P').every(p => p.z === SIZE - 2)).toBe(true);
+    });
+});
+
+describe('calculateValidMoves', () => {
+    it('moves a knight to all 24 leaps from the middle of the cube', () => {
+        const board = boardWith(['N', 'white', 3, 3, 3]);
+        expect(calculateValidMoves(pieceAt(board, 3, 3, 3), board)).toHaveLength(24);
+    });
+
+    it('moves a king one step in all 26 directions', () => {
+        const board = boardWith(['K', 'white', 3, 3, 3]);
+        expect(calculateValidMoves(pieceAt(board, 3, 3, 3), board)).toHaveLength(26);
+    });
+
+    it('slides rooks along the axes, bishops along diagonals and queens along both', () => {
+        const rook = boardWith(['R', 'white', 0, 0, 0]);
+        const bishop = boardWith(['B', 'white', 0, 0, 0]);
+        const queen = boardWith(['Q', 'white', 0, 0, 0]);
+        expect(calculateValidMoves(pieceAt(rook, 0, 0, 0), rook)).toHaveLength(3 * (SIZE - 1));
+        expect(calculateValidMoves(pieceAt(bishop, 0, 0, 0), bishop)).toHaveLength(4 * (SIZE - 1));
+        expect(calculateValidMoves(pieceAt(queen, 0, 0, 0), queen)).toHaveLength(7 * (SIZE - 1));
+    });
+
+    it('stops sliders at the first piece, capturing only opponents', () => {
+        const board = boardWith(['R', 'white', 0, 0, 0], ['P', 'white', 0, 0, 3], ['N', 'black', 0, 2, 0]);
+        const moves = calculateValidMoves(pieceAt(board, 0, 0, 0), board);
+        expect(targets(moves.filter(m => m.z > 0))).toEqual(['0,0,1', '0,0,2']);
+        expect(targets(moves.filter(m => m.y > 0))).toEqual(['0,1,0', '0,2,0']);
+        expect(moves.find(m => m.y === 2)?.capture).toBe(true);
+    });
+
+    it('pushes a pawn one or two layers from its starting layer', () => {
+        const board = boardWith(['P', 'white', 3, 3, 1, false]);
+        expect(targets(calculateValidMoves(pieceAt(board, 3, 3, 1), board))).toEqual(['3,3,2', '3,3,3']);
+
+        const blocked = boardWith(['P', 'white', 3, 3, 1, false], ['N', 'black', 3, 3, 2]);
+        expect(calculateValidMoves(pieceAt(blocked, 3, 3, 1), blocked)).toHaveLength(0);
+    });
+
+    it('lets pawns capture on the eight forward diagonals', () => {
+        const specs: PieceSpec[] = [['P', 'black', 3, 3, 6]];
+        for (const dx of [-1, 0, 1]) {
+            for (const dy of [-1, 0, 1]) {
+                if (dx !== 0 || dy !== 0) specs.push(['N', dx === 1 && dy === 1 ? 'black' : 'white', 3 + dx, 3 + dy, 5]);
+            }
+        }
+        const board = boardWith(...specs);
+        const moves = calculateValidMoves(pieceAt(board, 3, 3, 6), board);
+        expect(moves.filter(m => m.capture)).toHaveLength(7);
+        expect(moves.every(m => m.z === 5 || m.z === 4)).toBe(true);
+        expect(moves.some(m => m.x === 4 && m.y === 4)).toBe(false);
+    });
+});
+
+describe('isKingInCheck', () => {
+    it('detects attacks along open lines only', () => {
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['R', 'black', 4, 3, 7]))).toBe(true);
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['R', 'black', 4, 3, 7], ['P', 'white', 4, 3, 1]))).toBe(false);
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['B', 'black', 7, 6, 3]))).toBe(true);
+    });
+
+    it('detects knight and pawn attacks', () => {
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['N', 'black', 5, 3, 2]))).toBe(true);
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['P', 'black', 5, 4, 1]))).toBe(true);
+        // Pawns attack diagonally forward, never straight ahead.
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['P', 'black', 4, 3, 1]))).toBe(false);
+    });
+});
+
+describe('fairy pieces', () => {
+    it('move unicorns along space diagonals and dragons like knights as well', () => {
+        const unicorn = boardWith(['U', 'white', 3, 3, 3]);
+        const unicornMoves = calculateValidMoves(pieceAt(unicorn, 3, 3, 3), unicorn);
+        expect(unicornMoves).toHaveLength(25);
+        expect(unicornMoves.every(m => m.x !== 3 && m.y !== 3 && m.z !== 3)).toBe(true);
+        const dragon = boardWith(['D', 'white', 3, 3, 3]);
+        expect(calculateValidMoves(pieceAt(dragon, 3, 3, 3), dragon)).toHaveLength(24 + 25);
+    });
+
+    it('give check along their own lines only', () => {
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['U', 'black', 7, 6, 3]))).toBe(true);
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['U', 'black', 7, 6, 0]))).toBe(false);
+        expect(isKingInCheck('white', boardWith(['K', 'white', 4, 3, 0], ['D', 'black', 5, 3, 2]))).toBe(true);
+    });
+
+    it('honour move-only and capture-only rules', () => {
+        const movement = PIECES.D.movement;
+        PIECES.D.movement = [
+            { vectors: [[1, 0, 0]], only: 'move' },
+            { vectors: [[0, 1, 0]], range: 2, only: 'capture' }
+        ];
+        try {
+            const board = boardWith(['D', 'white', 0, 0, 0], ['N', 'black', 3, 0, 0], ['N', 'black', 0, 2, 0]);
+            const moves = calculateValidMoves(pieceAt(board, 0, 0, 0), board);
+            expect(targets(moves)).toEqual(['0,2,0', '1,0,0', '2,0,0']);
+            expect(moves.find(m => m.y === 2)?.capture).toBe(true);
+        } finally {
+            PIECES.D.movement = movement;
+        }
+    });
+
+    it('are read and written in position strings and notation', () => {
+        const game = Game.fromPositionString(toPositionString({
+            variant: STANDARD_VARIANT,
+            board: boardWith(['K', 'white', 0, 0, 0], ['U', 'white', 2, 2, 2], ['K', 'black', 7, 7, 7]),
+            turn: 'white', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1
+        }));
+        expect(game.pieceAt({ x: 2, y: 2, z: 2 })?.type).toBe('U');
+        game.applyMove(parseMove('Ue55', game.position()));
+        expect(game.history()[0].notation).toBe('Ue55+');
+    });
+});
+
+describe('calculateLegalMoves', () => {
+    it('keeps a pinned piece on the pin line', () => {
+        const board = boardWith(['K', 'white', 4, 3, 0], ['R', 'white', 4, 3, 2], ['R', 'black', 4, 3, 6], ['K', 'black', 0, 0, 7]);
+        const moves = calculateLegalMoves(pieceAt(board, 4, 3, 2), board);
+        expect(targets(moves)).toEqual(['4,3,1', '4,3,3', '4,3,4', '4,3,5', '4,3,6']);
+    });
+
+    it('does not let the king step onto an attacked cell', () => {
+        const board = boardWith(['K', 'white', 0, 0, 0], ['R', 'black', 1, 7, 0], ['K', 'black', 7, 7, 7]);
+        const moves = calculateLegalMoves(pieceAt(board, 0, 0, 0), board);
+        expect(targets(moves)).toEqual(['0,0,1', '0,1,0', '0,1,1', '1,0,1', '1,1,1']);
+    });
+});
+
+describe('castling', () => {
+    const setup = (...extra: PieceSpec[]) => boardWith(
+        ['K', 'white', 4, 3, 0, false],
+        ['R', 'white', 7, 3, 0, false],
+        ['R', 'white', 0, 3, 0, false],
+        ['K', 'black', 4, 3, 7],
+        ...extra
+    );
+
+    it('offers both castles when the path is clear and safe', () => {
+        const board = setup();
+        const castles = calculateLegalMoves(pieceAt(board, 4, 3, 0), board).filter(m => m.castle);
+        expect(castles.map(m => [m.castle, m.x])).toEqual([['king', 6], ['queen', 2]]);
+    });
+
+    it('moves the rook next to the king', () => {
+        const board = setup();
+        const king = pieceAt(board, 4, 3, 0);
+        const castle = calculateLegalMoves(king, board).find(m => m.castle === 'king') as Move;
+        const after = simulateMove(king, castle, board);
+        expect(after[6][3][0]?.type).toBe('K');
+        expect(after[5][3][0]?.type).toBe('R');
+        expect(after[7][3][0]).toBeNull();
+    });
+
+    it('is not allowed through an attacked cell, a blocked path or after a rook moved', () => {
+        const attacked = setup(['R', 'black', 5, 3, 7]);
+        expect(calculateLegalMoves(pieceAt(attacked, 4, 3, 0), attacked).map(m => m.castle).filter(Boolean)).toEqual(['queen']);
+
+        const blocked = setup(['N', 'white', 1, 3, 0]);
+        expect(calculateLegalMoves(pieceAt(blocked, 4, 3, 0), blocked).map(m => m.castle).filter(Boolean)).toEqual(['king']);
+
+        const moved = setup();
+        moved[7][3][0] = { ...pieceAt(moved, 7, 3, 0), hasMoved: true };
+        expect(calculateLegalMoves(pieceAt(moved, 4, 3, 0), moved).map(m => m.castle).filter(Boolean)).toEqual(['queen']);
+    });
+
+    it('is not allowed out of check', () => {
+        const board = setup(['R', 'black', 4, 3, 6]);
+        expect(calculateLegalMoves(pieceAt(board, 4, 3, 0), board).some(m => m.castle)).toBe(false);
+    });
+});
+
+describe('promotion', () => {
+    const board = boardWith(['P', 'white', 2, 2, 6], ['K', 'white', 7, 7, 0], ['K', 'black', 7, 0, 7]);
+    const pawn = pieceAt(board, 2, 2, 6);
+    const push = calculateLegalMoves(pawn, board).find(m => m.z === 7) as Move;
+
+    it('happens when a pawn reaches the last layer', () => {
+        expect(isPromotionMove(pawn, push)).toBe(true);
+        expect(simulateMove(pawn, { ...push, promotion: 'N' }, board)[2][2][7]?.type).toBe('N');
+    });
+
+    it('requires a promotion piece when played through a game', () => {
+        const game = new Game({ variant: STANDARD_VARIANT, board, turn: 'white', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 });
+        expect(() => game.applyMove(push)).toThrow();
+        game.applyMove({ ...push, promotion: 'Q' });
+        expect(game.pieceAt(push)?.type).toBe('Q');
+    });
+});
+
+describe('en passant', () => {
+    // White has just played d42-d44, skipping d43. Taking en passant from e44
+    // would expose the black king on a44 to the rook on h44.
+    const skipped = { x: 3, y: 3, z: 2 };
+    const board = boardWith(
+        ['P', 'white', 3, 3, 3], ['R', 'white', 7, 3, 3], ['K', 'white', 7, 7, 0],
+        ['P', 'black', 2, 2, 3], ['P', 'black', 4, 3, 3], ['K', 'black', 0, 3, 3]
+    );
+
+    it('lets pawns capture onto the skipped cell from a diagonal', () => {
+        const pawn = pieceAt(board, 2, 2, 3);
+        expect(calculateValidMoves(pawn, board).some(m => m.x === 3 && m.y === 3)).toBe(false);
+        const capture = calculateValidMoves(pawn, board, skipped).find(m => m.enPassant) as Move;
+        expect(capture).toMatchObject({ x: 3, y: 3, z: 2, capture: true });
+
+        const after = simulateMove(pawn, capture, board);
+        expect(after[3][3][3]).toBeNull();
+        expect(after[3][3][2]?.color).toBe('black');
+    });
+
+    it('is illegal when removing both pawns exposes the king', () => {
+        expect(calculateLegalMoves(pieceAt(board, 4, 3, 3), board, skipped).some(m => m.enPassant)).toBe(false);
+        expect(calculateLegalMoves(pieceAt(board, 2, 2, 3), board, skipped).some(m => m.enPassant)).toBe(true);
+    });
+
+    it('counts as an attack on the pawn that made the double step', () => {
+        expect(isSquareAttacked(3, 3, 3, 'black', board)).toBe(false);
+        expect(isSquareAttacked(3, 3, 3, 'black', board, skipped)).toBe(true);
+    });
+
+    it('is only available on the ply right after the double step', () => {
+        const game = new Game({
+            variant: STANDARD_VARIANT,
+            board: boardWith(['P', 'white', 3, 3, 1, false], ['P', 'white', 0, 0, 1, false], ['K', 'white', 7, 7, 0],
+                ['P', 'black', 4, 4, 3], ['P', 'black', 7, 0, 6, false], ['K', 'black', 7, 7, 7]),
+            turn: 'white', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1
+        });
+        game.applyMove({ from: { x: 3, y: 3, z: 1 }, x: 3, y: 3, z: 3, capture: false });
+        expect(game.position().enPassant).toEqual(skipped);
+        expect(game.toPositionString()).toContain(' b d43 0 1');
+
+        const later = game.clone();
+        later.applyMove({ from: { x: 7, y: 0, z: 6 }, x: 7, y: 0, z: 5, capture: false });
+        later.applyMove({ from: { x: 0, y: 0, z: 1 }, x: 0, y: 0, z: 2, capture: false });
+        expect(later.legalMoves().some(m => m.enPassant)).toBe(false);
+
+        game.applyMove({ from: { x: 4, y: 4, z: 3 }, x: 3, y: 3, z: 2, capture: true });
+        expect(game.history()[1].notation).toBe('exd43');
+        expect(game.pieceAt({ x: 3, y: 3, z: 3 })).toBeNull();
+        expect(game.capturedPieces().white.map(p => p.type)).toEqual(['P']);
+    });
+});
+
+describe('getGameStatus', () => {
+    it('reports checkmate with the winner', () => {
+        const board = boardWith(['K', 'black', 0, 0, 7], ['Q', 'white', 1, 1, 6], ['R', 'white', 1, 1, 0], ['K', 'white', 7, 7, 0]);
+        expect(getGameStatus('black', board)).toEqual({ state: 'checkmate', winner: 'white' });
+    });
+
+    it('reports stalemate when the side to move has no legal move', () => {
+        const board = boardWith(['K', 'black', 0, 0, 7], ['Q', 'white', 1, 2, 7], ['K', 'white', 0, 0, 5]);
+        expect(getGameStatus('black', board)).toEqual({ state: 'stalemate' });
+    });
+
+    it('reports a check that can be escaped', () => {
+        const board = boardWith(['K', 'black', 0, 0, 7], ['R', 'white', 0, 0, 0], ['K', 'white', 7, 7, 0]);
+        expect(getGameStatus('black', board)).toEqual({ state: 'check', inCheck: 'black' });
+    });
+});
+
+describe('position strings', () => {
+    it('round-trip the initial position', () => {
+        const text = toPositionString(initialPosition());
+        expect(toPositionString(fromPositionString(text))).toBe(text);
+    });
+
+    it('carry the en passant cell', () => {
+        const position = { ...initialPosition(), turn: 'black' as const, enPassant: { x: 3, y: 3, z: 2 } };
+        position.board = simulateMove(pieceAt(position.board, 3, 3, 1), { from: { x: 3, y: 3, z: 1 }, x: 3, y: 3, z: 3, capture: false }, position.board);
+        const text = toPositionString(position);
+        expect(fromPositionString(text).enPassant).toEqual({ x: 3, y: 3, z: 2 });
+        expect(() => fromPositionString(text.replace(' d43 ', ' e43 '))).toThrow();
+        expect(fromPositionString(text.replace(' d43 ', ' ')).enPassant).toBeNull();
+    });
+
+    it('reject positions without exactly one king per side', () => {
+        const text = toPositionString({ variant: STANDARD_VARIANT, board: boardWith(['K', 'white', 0, 0, 0]), turn: 'white', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 });
+        expect(() => fromPositionString(text)).toThrow();
+    });
+});
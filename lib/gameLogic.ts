@@ -1,50 +1,33 @@
+import type { Piece, PieceType, BoardState, Move, GameStatus, Position, Square, Variant } from '../types';
+import { parseSquare, squareToNotation } from './notation';
+import { PIECES, PIECE_TYPES } from './pieces';
+import { STANDARD_VARIANT, findVariantBySize } from './variants';
 
-import { SIZE } from '../types';
-import type { Piece, BoardState, Move } from '../types';
-
-export function initializeBoardState(): BoardState {
-    const state: BoardState = Array(SIZE).fill(0).map(() => 
-        Array(SIZE).fill(0).map(() => 
-            Array(SIZE).fill(null)
+function createEmptyBoard(size: number): BoardState {
+    return Array(size).fill(0).map(() =>
+        Array(size).fill(0).map(() =>
+            Array(size).fill(null)
         )
     );
+}
 
-    const MAJOR_PIECE_PATTERN = [
-        "rnbrrbnr",
-        "nnbnnbnn",
-        "bbbqqbbb",
-        "rnqqkqnr",
-        "rnqqqqnr",
-        "bbbqqbbb",
-        "nnbnnbnn",
-        "rnbrrbnr"
-    ];
-    
-    const PAWN_ROW = "pppppppp"; 
-
-    for (let z = 0; z < SIZE; z++) {
-        const isWhite = z < 2;
-        let layerPattern: string[] | null = null;
-
-        if (z === 0) layerPattern = MAJOR_PIECE_PATTERN;
-        else if (z === 1) layerPattern = Array(SIZE).fill(PAWN_ROW);
-        else if (z === 6) layerPattern = Array(SIZE).fill(PAWN_ROW);
-        else if (z === 7) layerPattern = MAJOR_PIECE_PATTERN;
-        
-        if (layerPattern) {
-            for (let y = 0; y < SIZE; y++) {
-                const rowString = layerPattern[y];
-                for (let x = 0; x < SIZE; x++) {
-                    const char = rowString[x];
-                    if (char !== ' ') { 
-                        const pieceKey = char.toUpperCase() as Piece['type'];
-                        state[x][y][z] = {
-                            type: pieceKey, 
-                            color: isWhite ? 'white' : 'black',
-                            x, y, z,
-                            hasMoved: false
-                        };
-                    }
+export function initializeBoardState(variant: Variant = STANDARD_VARIANT): BoardState {
+    const { size, setup } = variant;
+    const state = createEmptyBoard(size);
+
+    for (let z = 0; z < size; z++) {
+        for (let y = 0; y < size; y++) {
+            const rowString = setup[z][y];
+            for (let x = 0; x < size; x++) {
+                const char = rowString[x];
+                if (char !== '.') {
+                    const pieceKey = char.toUpperCase() as Piece['type'];
+                    state[x][y][z] = {
+                        type: pieceKey,
+                        color: char === pieceKey ? 'white' : 'black',
+                        x, y, z,
+                        hasMoved: false
+                    };
                 }
             }
         }
@@ -52,81 +35,87 @@ export function initializeBoardState(): BoardState {
     return state;
 }
 
-function isWithinBounds(x: number, y: number, z: number): boolean {
-    return x >= 0 && x < SIZE && y >= 0 && y < SIZE && z >= 0 && z < SIZE;
+function isWithinBounds(x: number, y: number, z: number, size: number): boolean {
+    return x >= 0 && x < size && y >= 0 && y < size && z >= 0 && z < size;
 }
 
-function isSquareAttacked(x: number, y: number, z: number, attackerColor: 'white' | 'black', boardState: BoardState): boolean {
-    const opponentColor = attackerColor === 'white' ? 'black' : 'white';
-    
-    // Check for pawn attacks
-    const zDir = attackerColor === 'white' ? 1 : -1;
-    const pawnCaptureDirections = [];
-    for (const dx of [-1, 0, 1]) {
-        for (const dy of [-1, 0, 1]) {
-            if (dx === 0 && dy === 0) continue;
-            pawnCaptureDirections.push([dx, dy]);
-        }
-    }
-    for (const [dx, dy] of pawnCaptureDirections) {
-        const checkX = x - dx;
-        const checkY = y - dy;
-        const checkZ = z - zDir;
-        if (isWithinBounds(checkX, checkY, checkZ)) {
-            const piece = boardState[checkX][checkY][checkZ];
-            if (piece && piece.type === 'P' && piece.color === attackerColor) {
-                return true;
-            }
+// One step forward for a pawn of `color`, along the variant's pawn axis.
+function pawnForward(color: 'white' | 'black', variant: Variant): [number, number, number] {
+    const dir = color === 'white' ? 1 : -1;
+    return variant.pawnAxis === 'z' ? [0, 0, dir] : [0, dir, 0];
+}
+
+// Pawns capture onto the eight cells diagonally ahead: one step forward plus a
+// step of -1, 0 or 1 along each of the two other axes, but not straight ahead.
+function pawnCaptureOffsets(color: 'white' | 'black', variant: Variant): number[][] {
+    const forward = pawnForward(color, variant);
+    const offsets: number[][] = [];
+    for (const a of [-1, 0, 1]) {
+        for (const b of [-1, 0, 1]) {
+            if (a === 0 && b === 0) continue;
+            const sideways = variant.pawnAxis === 'z' ? [a, b, 0] : [a, 0, b];
+            offsets.push(sideways.map((d, i) => d + forward[i]));
         }
     }
-    
-    // Check for Knight attacks
-    const knightMoves = [
-        [2, 1, 0], [2, -1, 0], [-2, 1, 0], [-2, -1, 0],
-        [1, 2, 0], [1, -2, 0], [-1, 2, 0], [-1, -2, 0],
-        [2, 0, 1], [2, 0, -1], [-2, 0, 1], [-2, 0, -1],
-        [1, 0, 2], [1, 0, -2], [-1, 0, 2], [-1, 0, -2],
-        [0, 2, 1], [0, 2, -1], [0, -2, 1], [0, -2, -1],
-        [0, 1, 2], [0, 1, -2], [0, -1, 2], [0, -1, -2]
-    ];
-    for (const [dx, dy, dz] of knightMoves) {
-        const checkX = x - dx, checkY = y - dy, checkZ = z - dz;
-        if (isWithinBounds(checkX, checkY, checkZ)) {
-            const piece = boardState[checkX][checkY][checkZ];
-            if (piece && piece.type === 'N' && piece.color === attackerColor) {
-                return true;
+    return offsets;
+}
+
+// Where a pawn stands along the variant's pawn axis.
+function pawnRank(square: Square, variant: Variant): number {
+    return variant.pawnAxis === 'z' ? square.z : square.y;
+}
+
+// Every vector a piece captures along, with the farthest distance each piece
+// type captures at. Pawns are handled separately.
+const ATTACK_VECTORS: { vector: number[]; ranges: Map<PieceType, number> }[] = (() => {
+    const byVector = new Map<string, { vector: number[]; ranges: Map<PieceType, number> }>();
+    for (const type of PIECE_TYPES) {
+        for (const rule of PIECES[type].movement) {
+            if (rule.only === 'move') continue;
+            for (const vector of rule.vectors) {
+                const key = vector.join(',');
+                const entry = byVector.get(key) ?? { vector, ranges: new Map() };
+                entry.ranges.set(type, Math.max(entry.ranges.get(type) ?? 0, rule.range ?? Infinity));
+                byVector.set(key, entry);
             }
         }
     }
+    return [...byVector.values()];
+})();
 
-    // Check for Rook, Bishop, Queen, King attacks (ray casting)
-    const all3DDirections: number[][] = [];
-    for (let dx = -1; dx <= 1; dx++) {
-        for (let dy = -1; dy <= 1; dy++) {
-            for (let dz = -1; dz <= 1; dz++) {
-                if (dx === 0 && dy === 0 && dz === 0) continue;
-                all3DDirections.push([dx, dy, dz]);
-            }
-        }
+// `enPassant` is the cell skipped by a pawn double step on the previous ply.
+// The pawn that made it counts as attacked by the pawns that could take it en
+// passant; kings and castling paths are never affected.
+export function isSquareAttacked(x: number, y: number, z: number, attackerColor: 'white' | 'black', boardState: BoardState, enPassant: Square | null = null, variant: Variant = STANDARD_VARIANT): boolean {
+    const size = boardState.length;
+
+    // Check for pawn attacks
+    const pawnCaptures = pawnCaptureOffsets(attackerColor, variant);
+    const isPawnAttacked = (tx: number, ty: number, tz: number) => pawnCaptures.some(([dx, dy, dz]) => {
+        const checkX = tx - dx;
+        const checkY = ty - dy;
+        const checkZ = tz - dz;
+        if (!isWithinBounds(checkX, checkY, checkZ, size)) return false;
+        const piece = boardState[checkX][checkY][checkZ];
+        return !!piece && piece.type === 'P' && piece.color === attackerColor;
+    });
+    if (isPawnAttacked(x, y, z)) return true;
+    const [fx, fy, fz] = pawnForward(attackerColor, variant);
+    if (enPassant && enPassant.x === x + fx && enPassant.y === y + fy && enPassant.z === z + fz && isPawnAttacked(x + fx, y + fy, z + fz)) {
+        return true;
     }
-    
-    for (const [dx, dy, dz] of all3DDirections) {
-        for (let k = 1; k < SIZE; k++) {
-            const checkX = x + dx * k, checkY = y + dy * k, checkZ = z + dz * k;
-            if (!isWithinBounds(checkX, checkY, checkZ)) break;
+
+    // Look back along every vector some piece moves by, up to the first piece,
+    // and check whether that piece captures along it from that distance.
+    for (const { vector: [dx, dy, dz], ranges } of ATTACK_VECTORS) {
+        for (let k = 1; k < size; k++) {
+            const checkX = x - dx * k, checkY = y - dy * k, checkZ = z - dz * k;
+            if (!isWithinBounds(checkX, checkY, checkZ, size)) break;
 
             const piece = boardState[checkX][checkY][checkZ];
             if (piece) {
-                if (piece.color === attackerColor) {
-                    const isOrthogonal = (Math.abs(dx) + Math.abs(dy) + Math.abs(dz)) === 1;
-                    const isDiagonal = (Math.abs(dx) + Math.abs(dy) + Math.abs(dz)) > 1;
-
-                    if (piece.type === 'Q') return true;
-                    if (piece.type === 'R' && isOrthogonal) return true;
-                    if (piece.type === 'B' && isDiagonal) return true;
-                    if (piece.type === 'K' && k === 1) return true;
-                }
-                break; 
+                if (piece.color === attackerColor && (ranges.get(piece.type) ?? 0) >= k) return true;
+                break;
             }
         }
     }
@@ -135,9 +124,10 @@ function isSquareAttacked(x: number, y: number, z: number, attackerColor: 'white
 }
 
 function findKing(kingColor: 'white' | 'black', boardState: BoardState): Piece | null {
-    for (let x = 0; x < SIZE; x++) {
-        for (let y = 0; y < SIZE; y++) {
-            for (let z = 0; z < SIZE; z++) {
+    const size = boardState.length;
+    for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+            for (let z = 0; z < size; z++) {
                 const piece = boardState[x][y][z];
                 if (piece && piece.type === 'K' && piece.color === kingColor) {
                     return piece;
@@ -148,135 +138,383 @@ function findKing(kingColor: 'white' | 'black', boardState: BoardState): Piece |
     return null;
 }
 
-export function isKingInCheck(kingColor: 'white' | 'black', boardState: BoardState): boolean {
+export function isKingInCheck(kingColor: 'white' | 'black', boardState: BoardState, variant: Variant = STANDARD_VARIANT): boolean {
     const king = findKing(kingColor, boardState);
     if (!king) return false;
     const opponentColor = kingColor === 'white' ? 'black' : 'white';
-    return isSquareAttacked(king.x, king.y, king.z, opponentColor, boardState);
+    return isSquareAttacked(king.x, king.y, king.z, opponentColor, boardState, null, variant);
 }
 
-export function calculateValidMoves(piece: Piece, boardState: BoardState): Move[] {
+// `enPassant` is the cell skipped by a pawn double step on the previous ply, if
+// any; pawns may capture onto it from any of their eight capture directions.
+export function calculateValidMoves(piece: Piece, boardState: BoardState, enPassant: Square | null = null, variant: Variant = STANDARD_VARIANT): Move[] {
     const { x: startX, y: startY, z: startZ, type, color } = piece;
+    const from = { x: startX, y: startY, z: startZ };
     const moves: Move[] = [];
+    const size = boardState.length;
 
     if (type === 'P') {
-        const zDir = color === 'white' ? 1 : -1; 
-        const moveZ = startZ + zDir;
-        if (isWithinBounds(startX, startY, moveZ) && !boardState[startX][startY][moveZ]) {
-            moves.push({ x: startX, y: startY, z: moveZ, capture: false });
-            const startLayer = (color === 'white') ? 1 : 6;
-            if (startZ === startLayer) {
-                const doubleMoveZ = startZ + zDir * 2;
-                if (isWithinBounds(startX, startY, doubleMoveZ) && !boardState[startX][startY][doubleMoveZ] && !boardState[startX][startY][moveZ]) {
-                    moves.push({ x: startX, y: startY, z: doubleMoveZ, capture: false });
+        const [fx, fy, fz] = pawnForward(color, variant);
+        const moveX = startX + fx, moveY = startY + fy, moveZ = startZ + fz;
+        if (isWithinBounds(moveX, moveY, moveZ, size) && !boardState[moveX][moveY][moveZ]) {
+            moves.push({ from, x: moveX, y: moveY, z: moveZ, capture: false });
+            if (variant.pawnStart && pawnRank(from, variant) === variant.pawnStart[color]) {
+                const doubleX = moveX + fx, doubleY = moveY + fy, doubleZ = moveZ + fz;
+                if (isWithinBounds(doubleX, doubleY, doubleZ, size) && !boardState[doubleX][doubleY][doubleZ]) {
+                    moves.push({ from, x: doubleX, y: doubleY, z: doubleZ, capture: false });
                 }
             }
         }
-        const threeDDirections = [];
-        for (const dx of [-1, 0, 1]) {
-            for (const dy of [-1, 0, 1]) {
-                if (dx === 0 && dy === 0) continue; 
-                threeDDirections.push([dx, dy, zDir]);
-            }
-        }
 
-        for (const [dx, dy, dz] of threeDDirections) {
+        for (const [dx, dy, dz] of pawnCaptureOffsets(color, variant)) {
             const tx = startX + dx;
             const ty = startY + dy;
             const tz = startZ + dz;
-            if (isWithinBounds(tx, ty, tz)) {
+            if (isWithinBounds(tx, ty, tz, size)) {
                 const targetPiece = boardState[tx][ty][tz];
                 if (targetPiece && targetPiece.color !== color) {
-                    moves.push({ x: tx, y: ty, z: tz, capture: true });
+                    moves.push({ from, x: tx, y: ty, z: tz, capture: true });
+                } else if (!targetPiece && enPassant && enPassant.x === tx && enPassant.y === ty && enPassant.z === tz) {
+                    moves.push({ from, x: tx, y: ty, z: tz, capture: true, enPassant: true });
                 }
             }
         }
-    } else if (type === 'N') {
-        const permutations = [
-            [2, 1, 0], [2, -1, 0], [-2, 1, 0], [-2, -1, 0],
-            [1, 2, 0], [1, -2, 0], [-1, 2, 0], [-1, -2, 0],
-            [2, 0, 1], [2, 0, -1], [-2, 0, 1], [-2, 0, -1],
-            [1, 0, 2], [1, 0, -2], [-1, 0, 2], [-1, 0, -2],
-            [0, 2, 1], [0, 2, -1], [0, -2, 1], [0, -2, -1],
-            [0, 1, 2], [0, 1, -2], [0, -1, 2], [0, -1, -2]
-        ];
-
-        for (const [dx, dy, dz] of permutations) {
-            const tx = startX + dx, ty = startY + dy, tz = startZ + dz;
-            if (isWithinBounds(tx, ty, tz)) {
-                const targetPiece = boardState[tx][ty][tz];
-                if (!targetPiece || targetPiece.color !== color) {
-                    moves.push({ x: tx, y: ty, z: tz, capture: !!targetPiece });
+    } else {
+        for (const rule of PIECES[type].movement) {
+            const maxDistance = rule.range ?? size;
+            for (const [dx, dy, dz] of rule.vectors) {
+                for (let k = 1; k <= maxDistance; k++) {
+                    const tx = startX + dx * k, ty = startY + dy * k, tz = startZ + dz * k;
+                    if (!isWithinBounds(tx, ty, tz, size)) break;
+                    const targetPiece = boardState[tx][ty][tz];
+                    if (targetPiece) {
+                        if (targetPiece.color !== color && rule.only !== 'move') {
+                            moves.push({ from, x: tx, y: ty, z: tz, capture: true });
+                        }
+                        break;
+                    } else if (rule.only !== 'capture') {
+                        moves.push({ from, x: tx, y: ty, z: tz, capture: false });
+                    }
                 }
             }
         }
-    } else {
-        const all3DDirections: number[][] = [];
-        for (let dx = -1; dx <= 1; dx++) {
-            for (let dy = -1; dy <= 1; dy++) {
-                for (let dz = -1; dz <= 1; dz++) {
-                    if (dx === 0 && dy === 0 && dz === 0) continue; 
-                    all3DDirections.push([dx, dy, dz]);
+
+        const home = variant.castling?.[color];
+        if (type === 'K' && home && startY === home.y && startZ === home.z && !piece.hasMoved && !isKingInCheck(color, boardState, variant)) {
+            const opponentColor = color === 'white' ? 'black' : 'white';
+            // The king moves two cells towards an unmoved rook in the row's end
+            // cell. The cells between them must be empty, and the king may not
+            // cross or land on an attacked cell.
+            const castleTowards = (rookX: number, castle: 'king' | 'queen') => {
+                const rook = boardState[rookX][startY][startZ];
+                if (!rook || rook.type !== 'R' || rook.hasMoved || rook.color !== color) return;
+                const dir = Math.sign(rookX - startX);
+                if (Math.abs(rookX - startX) < 3) return;
+                for (let x = startX + dir; x !== rookX; x += dir) {
+                    if (boardState[x][startY][startZ] !== null) return;
+                }
+                for (const x of [startX + dir, startX + 2 * dir]) {
+                    if (isSquareAttacked(x, startY, startZ, opponentColor, boardState, null, variant)) return;
+                }
+                moves.push({ from, x: startX + 2 * dir, y: startY, z: startZ, capture: false, castle });
+            };
+            castleTowards(size - 1, 'king');
+            castleTowards(0, 'queen');
+        }
+    }
+    return moves;
+}
+
+export const PROMOTION_PIECES: Piece['type'][] = ['Q', 'R', 'B', 'N'];
+
+export function isPromotionMove(piece: Piece, move: Move, variant: Variant = STANDARD_VARIANT): boolean {
+    return piece.type === 'P' && pawnRank(move, variant) === variant.promotion[piece.color];
+}
+
+// The cell a pawn skips when the move is a double step, otherwise null.
+export function enPassantTarget(piece: Piece, move: Move): Square | null {
+    if (piece.type !== 'P' || (Math.abs(move.z - piece.z) !== 2 && Math.abs(move.y - piece.y) !== 2)) return null;
+    return { x: piece.x, y: (piece.y + move.y) / 2, z: (piece.z + move.z) / 2 };
+}
+
+// The pawn taken by an en passant capture stands beside the capturing pawn's
+// origin, at the rank the capture started from.
+export function enPassantCaptureSquare(move: Move, variant: Variant = STANDARD_VARIANT): Square {
+    return variant.pawnAxis === 'z'
+        ? { x: move.x, y: move.y, z: move.from.z }
+        : { x: move.x, y: move.from.y, z: move.z };
+}
+
+export function cloneBoardState(boardState: BoardState): BoardState {
+    return boardState.map(plane => plane.map(row => row.slice()));
+}
+
+// Returns a new board with the move played. Pieces that move are copied, all
+// others are shared with the original board, so neither board is mutated.
+export function simulateMove(piece: Piece, move: Move, boardState: BoardState, variant: Variant = STANDARD_VARIANT): BoardState {
+    const newBoardState = cloneBoardState(boardState);
+    newBoardState[piece.x][piece.y][piece.z] = null;
+    newBoardState[move.x][move.y][move.z] = {
+        ...piece,
+        type: move.promotion ?? piece.type,
+        x: move.x, y: move.y, z: move.z,
+        hasMoved: true
+    };
+
+    if (move.enPassant) {
+        const captured = enPassantCaptureSquare(move, variant);
+        newBoardState[captured.x][captured.y][captured.z] = null;
+    }
+
+    if (move.castle) {
+        const rookFromX = move.castle === 'king' ? boardState.length - 1 : 0;
+        const rookToX = move.castle === 'king' ? move.x - 1 : move.x + 1;
+        const rook = newBoardState[rookFromX][move.y][move.z];
+        if (rook) {
+            newBoardState[rookFromX][move.y][move.z] = null;
+            newBoardState[rookToX][move.y][move.z] = { ...rook, x: rookToX, hasMoved: true };
+        }
+    }
+    return newBoardState;
+}
+
+// A pseudo-legal move is legal when it does not leave the mover's king in check.
+export function isMoveLegal(piece: Piece, move: Move, boardState: BoardState, variant: Variant = STANDARD_VARIANT): boolean {
+    return !isKingInCheck(piece.color, simulateMove(piece, move, boardState, variant), variant);
+}
+
+export function calculateLegalMoves(piece: Piece, boardState: BoardState, enPassant: Square | null = null, variant: Variant = STANDARD_VARIANT): Move[] {
+    return calculateValidMoves(piece, boardState, enPassant, variant).filter(move => isMoveLegal(piece, move, boardState, variant));
+}
+
+function hasAnyLegalMove(color: 'white' | 'black', boardState: BoardState, enPassant: Square | null, variant: Variant): boolean {
+    const size = boardState.length;
+    for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+            for (let z = 0; z < size; z++) {
+                const piece = boardState[x][y][z];
+                if (piece && piece.color === color && calculateLegalMoves(piece, boardState, enPassant, variant).length > 0) {
+                    return true;
                 }
             }
         }
+    }
+    return false;
+}
+
+// Status of the game from the point of view of the side to move.
+export function getGameStatus(turn: 'white' | 'black', boardState: BoardState, enPassant: Square | null = null, variant: Variant = STANDARD_VARIANT): GameStatus {
+    const inCheck = isKingInCheck(turn, boardState, variant);
+    if (!hasAnyLegalMove(turn, boardState, enPassant, variant)) {
+        return inCheck
+            ? { state: 'checkmate', winner: turn === 'white' ? 'black' : 'white' }
+            : { state: 'stalemate' };
+    }
+    return inCheck ? { state: 'check', inCheck: turn } : { state: 'active' };
+}
+
+export function isGameOver(status: GameStatus): boolean {
+    return status.state !== 'active' && status.state !== 'check';
+}
+
+// The side whose draw offer awaits an answer, if any.
+export function pendingDrawOffer(status: GameStatus): Piece['color'] | null {
+    return (status.state === 'active' || status.state === 'check') && status.drawOfferedBy ? status.drawOfferedBy : null;
+}
 
-        let rayDirections: number[][] = [];
-        if (type === 'R' || type === 'Q' || type === 'K') {
-            rayDirections.push(...all3DDirections.filter(([dx, dy, dz]) => (Math.abs(dx) + Math.abs(dy) + Math.abs(dz)) === 1));
+// A king and rook that have not moved yet, on the king's home row.
+export function getCastlingRights(color: 'white' | 'black', boardState: BoardState, variant: Variant = STANDARD_VARIANT): { king: boolean; queen: boolean } {
+    const king = findKing(color, boardState);
+    if (!king || king.hasMoved || !variant.castling) return { king: false, queen: false };
+    const isUnmovedRook = (x: number) => {
+        const rook = boardState[x][king.y][king.z];
+        return !!rook && rook.type === 'R' && rook.color === color && !rook.hasMoved;
+    };
+    return { king: isUnmovedRook(boardState.length - 1), queen: isUnmovedRook(0) };
+}
+
+// Plies without a capture or pawn move after which the game is drawn.
+export const FIFTY_MOVE_PLIES = 100;
+
+// True when neither side can ever checkmate. On every variant's board a lone
+// king always keeps an escape from king plus knight, bishop or even rook, so
+// those endings are dead; a queen or any two pieces can still mate. Endings
+// with pieces on both sides are left to play on, since a defender's own piece
+// can block its king's last escape.
+export function hasInsufficientMaterial(boardState: BoardState): boolean {
+    const pieces: Piece[] = [];
+    for (const plane of boardState) {
+        for (const row of plane) {
+            for (const piece of row) {
+                if (piece && piece.type !== 'K') pieces.push(piece);
+            }
         }
-        if (type === 'B' || type === 'Q' || type === 'K') {
-            rayDirections.push(...all3DDirections.filter(([dx, dy, dz]) => (Math.abs(dx) + Math.abs(dy) + Math.abs(dz)) > 1));
+    }
+    if (pieces.length === 0) return true;
+    return pieces.length === 1 && (pieces[0].type === 'N' || pieces[0].type === 'B' || pieces[0].type === 'R');
+}
+
+// True when `color` has only its king left, or a single knight, bishop or rook
+// against a lone king, so it can never checkmate however the opponent plays.
+// Decides whether running out of time against it loses or draws.
+export function hasInsufficientMatingMaterial(color: Piece['color'], boardState: BoardState): boolean {
+    const own: Piece[] = [];
+    let opponentPieces = 0;
+    for (const plane of boardState) {
+        for (const row of plane) {
+            for (const piece of row) {
+                if (!piece || piece.type === 'K') continue;
+                if (piece.color === color) own.push(piece);
+                else opponentPieces++;
+            }
         }
+    }
+    if (own.length === 0) return true;
+    return own.length === 1 && opponentPieces === 0 && (own[0].type === 'N' || own[0].type === 'B' || own[0].type === 'R');
+}
 
-        const uniqueDirections = new Set(rayDirections.map(d => d.join(',')));
-        rayDirections = Array.from(uniqueDirections).map(s => s.split(',').map(Number));
+export function initialPosition(variant: Variant = STANDARD_VARIANT): Position {
+    return { variant, board: initializeBoardState(variant), turn: 'white', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 };
+}
 
-        const maxDistance = (type === 'K') ? 1 : SIZE; 
+// =====================================================================================
+// == POSITION STRINGS ==
+// =====================================================================================
+//
+// A FEN-like encoding of a Position with five space-separated fields:
+//
+//   <layers> <side to move: w|b> <en passant cell|-> <halfmove clock> <fullmove number>
+//
+// Layers are listed from z=0 upwards and separated by "|". Each layer lists its
+// rows from the highest y down to y=0, separated by "/", and each row lists cells
+// from x=0. White pieces are upper case, black pieces lower case, and a digit
+// counts consecutive empty cells. A piece that has already moved is followed
+// by an apostrophe, which is also how castling rights are carried: a king or
+// rook without one can still castle. The en passant cell is written in 3D
+// algebraic notation (see notation.ts). Strings from before en passant existed,
+// with only four fields, are still accepted. The string does not name the
+// variant: it is the one played on a board with as many layers (see variants.ts).
 
-        for (const [dx, dy, dz] of rayDirections) {
-            for (let k = 1; k <= maxDistance; k++) {
-                const tx = startX + dx * k, ty = startY + dy * k, tz = startZ + dz * k;
-                if (!isWithinBounds(tx, ty, tz)) break; 
-                const targetPiece = boardState[tx][ty][tz];
-                if (targetPiece) {
-                    if (targetPiece.color !== color) {
-                        moves.push({ x: tx, y: ty, z: tz, capture: true }); 
-                    }
-                    break; 
-                } else {
-                    moves.push({ x: tx, y: ty, z: tz, capture: false }); 
+
+export function toPositionString(position: Position): string {
+    const { board, turn, enPassant, halfmoveClock, fullmoveNumber } = position;
+    const size = board.length;
+    const layers: string[] = [];
+    for (let z = 0; z < size; z++) {
+        const rows: string[] = [];
+        for (let y = size - 1; y >= 0; y--) {
+            let row = '';
+            let empty = 0;
+            for (let x = 0; x < size; x++) {
+                const piece = board[x][y][z];
+                if (!piece) {
+                    empty++;
+                    continue;
                 }
+                if (empty > 0) row += empty;
+                empty = 0;
+                row += piece.color === 'white' ? piece.type : piece.type.toLowerCase();
+                if (piece.hasMoved) row += "'";
             }
+            if (empty > 0) row += empty;
+            rows.push(row);
         }
+        layers.push(rows.join('/'));
+    }
+    const enPassantField = enPassant ? squareToNotation(enPassant) : '-';
+    return `${layers.join('|')} ${turn === 'white' ? 'w' : 'b'} ${enPassantField} ${halfmoveClock} ${fullmoveNumber}`;
+}
 
-        if (type === 'K' && !piece.hasMoved && !isKingInCheck(color, boardState)) {
-            const opponentColor = color === 'white' ? 'black' : 'white';
-            const kingY = color === 'white' ? 3 : 3; 
-            const kingZ = color === 'white' ? 0 : 7;
-            
-            if (startY === kingY && startZ === kingZ) {
-                // Kingside castle
-                const kingsideRook = boardState[7][startY][startZ];
-                if (kingsideRook && kingsideRook.type === 'R' && !kingsideRook.hasMoved && kingsideRook.color === color) {
-                    if (boardState[5][startY][startZ] === null && boardState[6][startY][startZ] === null) {
-                        if (!isSquareAttacked(5, startY, startZ, opponentColor, boardState) && !isSquareAttacked(6, startY, startZ, opponentColor, boardState)) {
-                            moves.push({ x: startX + 2, y: startY, z: startZ, capture: false, castle: 'king' });
-                        }
-                    }
+// Parses a position string, throwing an Error that names the offending part.
+export function fromPositionString(text: string): Position {
+    const fields = text.trim().split(/\s+/);
+    if (fields.length === 4) fields.splice(2, 0, '-');
+    if (fields.length !== 5) {
+        throw new Error(`Expected 5 fields (layers, side to move, en passant cell, halfmove clock, fullmove number), found ${fields.length}`);
+    }
+    const [layersField, turnField, enPassantField, halfmoveField, fullmoveField] = fields;
+
+    const layers = layersField.split('|');
+    const variant = findVariantBySize(layers.length);
+    if (!variant) {
+        throw new Error(`No variant is played on a board with ${layers.length} layers`);
+    }
+    const size = variant.size;
+
+    const board = createEmptyBoard(size);
+    const kings = { white: 0, black: 0 };
+
+    layers.forEach((layer, z) => {
+        const rows = layer.split('/');
+        if (rows.length !== size) {
+            throw new Error(`Layer ${z}: expected ${size} rows, found ${rows.length}`);
+        }
+        rows.forEach((row, rowIndex) => {
+            const y = size - 1 - rowIndex;
+            let x = 0;
+            for (let i = 0; i < row.length; i++) {
+                const char = row[i];
+                const digits = /^\d+/.exec(row.slice(i));
+                if (digits) {
+                    x += Number(digits[0]);
+                    i += digits[0].length - 1;
+                    continue;
                 }
-                
-                // Queenside castle
-                const queensideRook = boardState[0][startY][startZ];
-                if (queensideRook && queensideRook.type === 'R' && !queensideRook.hasMoved && queensideRook.color === color) {
-                    if (boardState[1][startY][startZ] === null && boardState[2][startY][startZ] === null && boardState[3][startY][startZ] === null) {
-                        if (!isSquareAttacked(2, startY, startZ, opponentColor, boardState) && !isSquareAttacked(3, startY, startZ, opponentColor, boardState)) {
-                             moves.push({ x: startX - 2, y: startY, z: startZ, capture: false, castle: 'queen' });
-                        }
-                    }
+                const type = char.toUpperCase() as PieceType;
+                if (!PIECE_TYPES.includes(type)) {
+                    throw new Error(`Layer ${z}, row ${y}: unknown piece "${char}"`);
+                }
+                if (x >= size) {
+                    throw new Error(`Layer ${z}, row ${y}: more than ${size} cells`);
                 }
+                const color = char === type ? 'white' : 'black';
+                const hasMoved = row[i + 1] === "'";
+                if (hasMoved) i++;
+                if (type === 'K') kings[color]++;
+                board[x][y][z] = { type, color, x, y, z, hasMoved };
+                x++;
             }
-        }
+            if (x !== size) {
+                throw new Error(`Layer ${z}, row ${y}: expected ${size} cells, found ${x}`);
+            }
+        });
+    });
+
+    if (kings.white !== 1 || kings.black !== 1) {
+        throw new Error(`Each side needs exactly one king (white: ${kings.white}, black: ${kings.black})`);
     }
-    return moves;
-}
\ No newline at end of file
+    if (turnField !== 'w' && turnField !== 'b') {
+        throw new Error(`Side to move must be "w" or "b", found "${turnField}"`);
+    }
+    const turn = turnField === 'w' ? 'white' : 'black';
+    const enPassant = enPassantField === '-' ? null : parseEnPassantField(enPassantField, turn, board, variant);
+    const halfmoveClock = Number(halfmoveField);
+    const fullmoveNumber = Number(fullmoveField);
+    if (!Number.isInteger(halfmoveClock) || halfmoveClock < 0) {
+        throw new Error(`Invalid halfmove clock "${halfmoveField}"`);
+    }
+    if (!Number.isInteger(fullmoveNumber) || fullmoveNumber < 1) {
+        throw new Error(`Invalid fullmove number "${fullmoveField}"`);
+    }
+
+    return { variant, board, turn, enPassant, halfmoveClock, fullmoveNumber };
+}
+
+// The skipped cell must be empty, on the rank the opponent's pawns reach with a
+// double step, and have the pawn that made it right behind it.
+function parseEnPassantField(field: string, turn: Piece['color'], board: BoardState, variant: Variant): Square {
+    const square = parseSquare(field, variant.size);
+    if (!square) {
+        throw new Error(`Invalid en passant cell "${field}"`);
+    }
+    const moverColor = turn === 'white' ? 'black' : 'white';
+    const [, fy, fz] = pawnForward(moverColor, variant);
+    const pawnStart = variant.pawnStart?.[moverColor];
+    const pawn = board[square.x][square.y + fy]?.[square.z + fz];
+    if (pawnStart === undefined || pawnRank(square, variant) !== pawnStart + (fy + fz)
+        || board[square.x][square.y][square.z]
+        || !pawn || pawn.type !== 'P' || pawn.color !== moverColor) {
+        throw new Error(`En passant cell ${field} does not follow a ${moverColor} pawn double step`);
+    }
+    return square;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { TimeControl } from '../types';
+import { initialPosition, toPositionString } from './gameLogic';
+import { Game } from './game';
+import { exportGameRecord, GameRecordError, importGameRecord } from './gameRecord';
+import { parseMove } from './notation';
+import { boardWith } from './testBoards';
+
+const RAPID: TimeControl = { mode: 'bronstein', initialMs: 600_000, incrementMs: 5000 };
+
+// White mates with Qb22# from here.
+const MATE_IN_ONE = toPositionString({
+    ...initialPosition(),
+    board: boardWith(['K', 'black', 0, 0, 0], ['K', 'white', 2, 2, 2], ['Q', 'white', 1, 1, 5])
+});
+
+function play(game: Game, ...moves: string[]): Game {
+    moves.forEach((text, i) => game.applyMove(parseMove(text, game.position()), 600_000 - i * 1000));
+    return game;
+}
+
+// The error an import fails with, to check its line number.
+function importError(text: string): GameRecordError {
+    try {
+        importGameRecord(text);
+    } catch (error) {
+        return error as GameRecordError;
+    }
+    throw new Error('The record was imported');
+}
+
+describe('game records', () => {
+    it('round-trip tags, moves, clock times and the time control', () => {
+        const game = play(new Game(), 'e23', 'e66', 'Nc13', 'Nc86');
+        const text = exportGameRecord(game, { Event: 'Club "night"', White: 'Alice', Round: '3' }, RAPID);
+        expect(text).toContain('[Event "Club \\"night\\""]');
+        expect(text).toContain('[TimeControl "600d5"]');
+        expect(text).toContain('1. e23 {[%clk 0:10:00]} e66 {[%clk 0:09:59]} 2. Nc13');
+
+        const imported = importGameRecord(text);
+        expect(imported.tags).toMatchObject({ Event: 'Club "night"', White: 'Alice', Round: '3', Result: '*' });
+        expect(imported.timeControl).toEqual(RAPID);
+        expect(imported.game.history()).toEqual(game.history());
+        expect(imported.game.toPositionString()).toBe(game.toPositionString());
+        expect(exportGameRecord(imported.game, imported.tags, imported.timeControl)).toBe(text);
+    });
+
+    it('round-trip a game from a custom position that ends in mate', () => {
+        const game = play(Game.fromPositionString(MATE_IN_ONE), 'Qb22');
+        const text = exportGameRecord(game);
+        expect(text).toContain(`[Position "${MATE_IN_ONE}"]`);
+        expect(text).toMatch(/1\. Qb22# \{\[%clk 0:10:00\]\} 1-0\n$/);
+        expect(importGameRecord(text).game.status()).toEqual({ state: 'checkmate', winner: 'white' });
+    });
+
+    it('report the line of an illegal move', () => {
+        const error = importError('[Event "Test"]\n\n1. e23 e66\n2. Qa88 Nc86 *\n');
+        expect(error).toBeInstanceOf(GameRecordError);
+        expect(error.line).toBe(4);
+        expect(error.message).toMatch(/^Line 4: Move 2\. Illegal move "Qa88"/);
+    });
+
+    it('reject results that contradict the final position', () => {
+        const mated = `[Position "${MATE_IN_ONE}"]\n[Result "0-1"]\n\n1. Qb22# 1-0\n`;
+        expect(importError(mated).line).toBe(2);
+        expect(importError(mated.replace('"0-1"', '"*"')).line).toBe(2);
+        expect(importError(mated.replace('"0-1"', '"1-0"').replace('# 1-0', '# 1/2-1/2')).line).toBe(4);
+
+        const unfinished = '[Result "1-0"]\n\n1. e23 e66\n0-1\n';
+        expect(importError(unfinished).message).toBe('Line 4: The result 0-1 does not match the Result tag 1-0');
+    });
+
+    it('reject moves after the result', () => {
+        const error = importError('[Result "*"]\n\n1. e23 e66 * {a comment is fine}\n2. Nc13\n');
+        expect(error.line).toBe(4);
+        expect(error.message).toContain('"Nc13" after the result *');
+    });
+
+    it('reject malformed tags, unknown variants and unterminated comments', () => {
+        expect(importError('[Event "Test"\n\n1. e23 *\n').line).toBe(1);
+        expect(importError('[Event "Test"]\n[Variant "Hexagonal"]\n\n*\n').line).toBe(2);
+        expect(importError('1. e23 {never closed\ne66\n').message).toBe('Line 3: Unterminated comment');
+    });
+});
@@ -0,0 +1,323 @@
+import type { GameStatus, Position, TimeControl } from '../types';
+import { fromPositionString, initialPosition, isGameOver, toPositionString } from './gameLogic';
+import { Game } from './game';
+import { parseMove } from './notation';
+import { findVariant, STANDARD_VARIANT } from './variants';
+
+// =====================================================================================
+// == VOLUMETRIC GAME RECORD (PGN-LIKE) ==
+// =====================================================================================
+//
+// A game file is a block of tag pairs followed by the move list in 3D algebraic
+// notation (see notation.ts) and the result:
+//
+//   [Event "Casual game"]
+//   [White "Alice"]
+//   [Black "Bob"]
+//   [Date "2025.01.31"]
+//   [Variant "Volumetric 8x8x8"]
+//   [Position "initial"]
+//   [Result "1-0"]
+//   [TimeControl "300+2"]
+//
+//   1. e23 {[%clk 0:05:00]} e63 {[%clk 0:04:58]} 2. Nc46 Nc43 ... 1-0
+//
+// The Variant tag names one of the variants in variants.ts and defaults to the
+// standard game. The Position tag is either "initial", the variant's starting
+// setup, or a position string (see toPositionString in gameLogic.ts) for games
+// that start from a custom setup.
+// Timed games carry a TimeControl tag giving the starting time in seconds,
+// followed by "+<seconds>" for a Fischer increment or "d<seconds>" for a
+// Bronstein delay, and a [%clk h:mm:ss] comment after each move with the
+// mover's remaining time. Other comments in braces and "..." move numbers are
+// accepted on import and ignored. A decided Result on a game the moves leave
+// unfinished is read back as a resignation or an agreed draw, or as a flag
+// fall of the side to move when the Termination tag says "time forfeit". On a
+// game the moves finish, the Result tag and the result after the moves must
+// match how it ended. Nothing but comments may follow the result.
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export type GameTags = Record<string, string>;
+
+export const INITIAL_POSITION_TAG = 'initial';
+
+const TAG_ORDER = ['Event', 'Site', 'Date', 'White', 'Black', 'Variant', 'Position', 'Result', 'TimeControl', 'Termination'];
+const RESULT_TOKENS: GameResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const LINE_WIDTH = 80;
+const TIME_FORFEIT = 'time forfeit';
+const TIME_CONTROL_PATTERN = /^(\d+(?:\.\d+)?)(?:([+d])(\d+(?:\.\d+)?))?$/;
+const CLOCK_COMMENT_PATTERN = /\[%clk\s+(\d+):(\d{2}):(\d{2}(?:\.\d+)?)\]/;
+
+export class GameRecordError extends Error {
+    constructor(public readonly line: number, message: string) {
+        super(`Line ${line}: ${message}`);
+        this.name = 'GameRecordError';
+    }
+}
+
+export function resultFromStatus(status: GameStatus): GameResult {
+    switch (status.state) {
+        case 'checkmate':
+        case 'resigned':
+        case 'timeout':
+            return status.winner === 'white' ? '1-0' : '0-1';
+        case 'stalemate':
+        case 'draw':
+            return '1/2-1/2';
+        default:
+            return '*';
+    }
+}
+
+function formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+function moveNumberLabel(position: Pick<Position, 'turn' | 'fullmoveNumber'>): string {
+    return position.turn === 'white' ? `${position.fullmoveNumber}.` : `${position.fullmoveNumber}...`;
+}
+
+export function formatTimeControl(control: TimeControl): string {
+    const seconds = (ms: number) => String(ms / 1000);
+    switch (control.mode) {
+        case 'fischer':
+            return `${seconds(control.initialMs)}+${seconds(control.incrementMs)}`;
+        case 'bronstein':
+            return `${seconds(control.initialMs)}d${seconds(control.incrementMs)}`;
+        default:
+            return seconds(control.initialMs);
+    }
+}
+
+export function parseTimeControl(text: string): TimeControl | null {
+    const match = TIME_CONTROL_PATTERN.exec(text);
+    if (!match) return null;
+    const [, initial, kind, increment] = match;
+    return {
+        mode: kind === '+' ? 'fischer' : kind === 'd' ? 'bronstein' : 'sudden-death',
+        initialMs: Math.round(Number(initial) * 1000),
+        incrementMs: increment ? Math.round(Number(increment) * 1000) : 0
+    };
+}
+
+// h:mm:ss, with tenths when the time is not a whole number of seconds.
+function formatClockComment(ms: number): string {
+    const tenths = Math.floor(ms / 100);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const seconds = `${pad(Math.floor(tenths / 10) % 60)}${tenths % 10 ? `.${tenths % 10}` : ''}`;
+    return `{[%clk ${Math.floor(tenths / 36000)}:${pad(Math.floor(tenths / 600) % 60)}:${seconds}]}`;
+}
+
+function escapeTagValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Serializes every recorded move of the game, including moves after the ply
+ * currently on display. Tags given by the caller override the defaults. The
+ * time control of a timed game is written to the TimeControl tag.
+ */
+export function exportGameRecord(game: Game, tags: GameTags = {}, timeControl: TimeControl | null = null): string {
+    const latest = game.clone();
+    latest.goToPly(latest.history().length);
+    const status = latest.status();
+    const result = resultFromStatus(status);
+    const start = latest.startPosition();
+    const startString = toPositionString(start);
+    const isInitialStart = startString === toPositionString(initialPosition(latest.variant()));
+
+    // The clock tags describe this game, whatever tags it was imported with.
+    const { TimeControl: _, Termination: __, ...customTags } = tags;
+    const timedOut = status.state === 'timeout' || (status.state === 'draw' && status.reason === 'timeout-vs-insufficient-material');
+    const allTags: GameTags = {
+        Event: 'Casual game',
+        Site: '?',
+        Date: formatDate(new Date()),
+        White: '?',
+        Black: '?',
+        ...customTags,
+        Variant: latest.variant().name,
+        Position: isInitialStart ? INITIAL_POSITION_TAG : startString,
+        Result: result,
+        ...(timeControl && { TimeControl: formatTimeControl(timeControl) }),
+        ...(timedOut && { Termination: TIME_FORFEIT })
+    };
+    const tagNames = [
+        ...TAG_ORDER.filter(name => name in allTags),
+        ...Object.keys(allTags).filter(name => !TAG_ORDER.includes(name))
+    ];
+    const tagLines = tagNames.map(name => `[${name} "${escapeTagValue(allTags[name])}"]`);
+
+    const tokens: string[] = [];
+    let { turn, fullmoveNumber } = start;
+    latest.history().forEach((record, index) => {
+        if (turn === 'white' || index === 0) tokens.push(moveNumberLabel({ turn, fullmoveNumber }));
+        tokens.push(record.notation);
+        if (record.clockMs !== undefined) tokens.push(formatClockComment(record.clockMs));
+        if (turn === 'black') fullmoveNumber++;
+        turn = turn === 'white' ? 'black' : 'white';
+    });
+    tokens.push(result);
+
+    const moveLines: string[] = [];
+    let line = '';
+    for (const token of tokens) {
+        if (line && line.length + token.length + 1 > LINE_WIDTH) {
+            moveLines.push(line);
+            line = token;
+        } else {
+            line = line ? `${line} ${token}` : token;
+        }
+    }
+    moveLines.push(line);
+
+    return `${tagLines.join('\n')}\n\n${moveLines.join('\n')}\n`;
+}
+
+/**
+ * Parses a game file and replays its moves through the game logic. Throws a
+ * GameRecordError carrying the 1-based line number of the first problem.
+ * `timeControl` is null for untimed games.
+ */
+export function importGameRecord(text: string): { game: Game; tags: GameTags; timeControl: TimeControl | null } {
+    const tags: GameTags = {};
+    let game: Game | null = null;
+    const startGame = (lineNumber: number) => {
+        const variant = tags.Variant ? findVariant(tags.Variant) ?? STANDARD_VARIANT : STANDARD_VARIANT;
+        if (!tags.Position || tags.Position === INITIAL_POSITION_TAG) return new Game(initialPosition(variant));
+        const game = Game.fromPositionString(tags.Position);
+        if (game.variant() !== variant) {
+            throw new GameRecordError(lineNumber, `The starting position is not a ${variant.name} position`);
+        }
+        return game;
+    };
+    const lines = text.split(/\r?\n/);
+    let inMoves = false;
+    let inComment = false;
+    let comment = '';
+    // A move is played once the comments after it, which may hold its clock
+    // time, have been read.
+    let pendingMove: { text: string; lineNumber: number; clockMs?: number } | null = null;
+    // The results given by the Result tag and after the moves, with their lines.
+    let resultTag: { result: GameResult; lineNumber: number } | null = null;
+    let resultToken: { result: GameResult; lineNumber: number } | null = null;
+    const playPendingMove = () => {
+        if (!pendingMove) return;
+        const current = game as Game;
+        try {
+            current.applyMove(parseMove(pendingMove.text, current.position()), pendingMove.clockMs);
+        } catch (error) {
+            throw new GameRecordError(pendingMove.lineNumber, `Move ${moveNumberLabel(current.position())} ${(error as Error).message}`);
+        }
+        pendingMove = null;
+    };
+
+    lines.forEach((rawLine, index) => {
+        const lineNumber = index + 1;
+        let line = rawLine.trim();
+
+        if (!inMoves && !inComment) {
+            if (!line) return;
+            const tagMatch = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(line);
+            if (tagMatch) {
+                const [, name, value] = tagMatch;
+                tags[name] = value.replace(/\\(.)/g, '$1');
+                validateTag(name, tags[name], lineNumber);
+                if (name === 'Result') resultTag = { result: tags[name] as GameResult, lineNumber };
+                return;
+            }
+            if (line.startsWith('[')) {
+                throw new GameRecordError(lineNumber, `Malformed tag pair "${line}"`);
+            }
+            inMoves = true;
+            game = startGame(lineNumber);
+        }
+
+        while (line) {
+            if (inComment) {
+                const end = line.indexOf('}');
+                comment += ` ${end === -1 ? line : line.slice(0, end)}`;
+                if (end === -1) return;
+                inComment = false;
+                line = line.slice(end + 1).trim();
+                const clock = CLOCK_COMMENT_PATTERN.exec(comment);
+                if (clock && pendingMove) {
+                    const [, hours, minutes, seconds] = clock;
+                    pendingMove.clockMs = Math.round(((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000);
+                }
+                continue;
+            }
+            if (line.startsWith('{')) {
+                inComment = true;
+                comment = '';
+                line = line.slice(1);
+                continue;
+            }
+
+            const token = line.split(/[\s{]/, 1)[0];
+            line = line.slice(token.length).trim();
+
+            const moveText = token.replace(/^\d+\.(\.\.)?/, '');
+            if (!moveText) continue;
+            if (resultToken) {
+                throw new GameRecordError(lineNumber, `"${moveText}" after the result ${resultToken.result}`);
+            }
+            if ((RESULT_TOKENS as string[]).includes(moveText)) {
+                resultToken = { result: moveText as GameResult, lineNumber };
+                continue;
+            }
+
+            playPendingMove();
+            pendingMove = { text: moveText, lineNumber };
+        }
+    });
+
+    if (inComment) {
+        throw new GameRecordError(lines.length, 'Unterminated comment');
+    }
+    playPendingMove();
+    const finalGame = game ?? startGame(lines.length);
+    const declared = [resultTag, resultToken].filter(result => result !== null);
+    const finalStatus = finalGame.status();
+    for (const { result, lineNumber } of declared) {
+        if (isGameOver(finalStatus) && result !== resultFromStatus(finalStatus)) {
+            throw new GameRecordError(lineNumber, `The result ${result} does not match the final position, which ends ${resultFromStatus(finalStatus)}`);
+        }
+        if (result !== declared[0].result) {
+            throw new GameRecordError(lineNumber, `The result ${result} does not match the Result tag ${declared[0].result}`);
+        }
+    }
+    const result = declared[0]?.result;
+    if (!isGameOver(finalStatus)) {
+        if (tags.Termination === TIME_FORFEIT && result && result !== '*') finalGame.flag();
+        else if (result === '1-0') finalGame.resign('black');
+        else if (result === '0-1') finalGame.resign('white');
+        else if (result === '1/2-1/2') {
+            finalGame.offerDraw();
+            finalGame.acceptDraw();
+        }
+    }
+    const timeControl = tags.TimeControl ? parseTimeControl(tags.TimeControl) : null;
+    return { game: finalGame, tags, timeControl };
+}
+
+function validateTag(name: string, value: string, lineNumber: number) {
+    if (name === 'Variant' && !findVariant(value)) {
+        throw new GameRecordError(lineNumber, `Unsupported variant "${value}"`);
+    }
+    if (name === 'Position' && value !== INITIAL_POSITION_TAG) {
+        try {
+            fromPositionString(value);
+        } catch (error) {
+            throw new GameRecordError(lineNumber, `Invalid starting position: ${(error as Error).message}`);
+        }
+    }
+    if (name === 'TimeControl' && !parseTimeControl(value)) {
+        throw new GameRecordError(lineNumber, `Unsupported time control "${value}"`);
+    }
+    if (name === 'Result' && !(RESULT_TOKENS as string[]).includes(value)) {
+        throw new GameRecordError(lineNumber, `Invalid result "${value}"`);
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { VolumetricEngine } from './engineProtocol';
+import { ProtocolEngineClient } from './engineProtocolClient';
+import { inProcessEngineLink } from './engineTransports';
+import { initialPosition } from './gameLogic';
+import { Game } from './game';
+import { estimateElo, playMatchGame, scoreFor } from './match';
+import { RANDOM_ENGINE } from './randomEngine';
+
+const client = (engine: VolumetricEngine) => new ProtocolEngineClient(inProcessEngineLink(engine));
+const options = { movetimeMs: 10, graceMs: 50, maxPlies: 12, start: initialPosition() };
+
+describe('engine matches', () => {
+    it('adjudicates long games as draws', async () => {
+        const { game, termination } = await playMatchGame({ white: client(RANDOM_ENGINE), black: client(RANDOM_ENGINE) }, options);
+        expect(termination).toBe('adjudicated');
+        expect(game.ply()).toBe(12);
+        expect(game.status()).toEqual({ state: 'draw', reason: 'agreement' });
+        expect(scoreFor(game, 'white')).toBe(0.5);
+    });
+
+    it('forfeits engines that run out of time or play illegal moves', async () => {
+        const silent: VolumetricEngine = {
+            name: 'Silent',
+            author: 'Tests',
+            search: (_position, _limits, _report, signal) => new Promise(resolve => signal.addEventListener('abort', () => resolve(null)))
+        };
+        const slow = await playMatchGame({ white: client(RANDOM_ENGINE), black: client(silent) }, options);
+        expect(slow.termination).toBe('time forfeit');
+        expect(slow.game.status()).toEqual({ state: 'timeout', winner: 'white' });
+        expect(scoreFor(slow.game, 'black')).toBe(0);
+
+        const cheat: VolumetricEngine = {
+            name: 'Cheat',
+            author: 'Tests',
+            search: async position => ({ ...new Game(position).legalMoves()[0], z: 7 })
+        };
+        const illegal = await playMatchGame({ white: client(cheat), black: client(RANDOM_ENGINE) }, options);
+        expect(illegal.termination).toBe('illegal move');
+        expect(illegal.game.status()).toEqual({ state: 'resigned', winner: 'black' });
+    });
+
+    it('estimates Elo differences from match scores', () => {
+        const even = estimateElo({ wins: 3, losses: 3, draws: 4 });
+        expect(even.elo).toBeCloseTo(0);
+        expect(even.margin).toBeGreaterThan(0);
+
+        // A 75% score is about 191 Elo; more games narrow the interval.
+        const ahead = estimateElo({ wins: 6, losses: 2, draws: 0 });
+        expect(ahead.elo).toBeCloseTo(190.85, 1);
+        expect(estimateElo({ wins: 60, losses: 20, draws: 0 }).margin).toBeLessThan(ahead.margin);
+        expect(estimateElo({ wins: 0, losses: 2, draws: 2 }).elo).toBeCloseTo(-190.85, 1);
+
+        expect(estimateElo({ wins: 5, losses: 0, draws: 0 })).toEqual({ elo: Infinity, margin: Infinity });
+    });
+});
@@ -0,0 +1,122 @@
+import type { Piece, Position } from '../types';
+import { isGameOver } from './gameLogic';
+import { Game } from './game';
+import type { ProtocolEngineClient } from './engineProtocolClient';
+
+// =====================================================================================
+// == ENGINE MATCHES ==
+// =====================================================================================
+//
+// Plays games between two engine protocol clients (see engineProtocolClient.ts)
+// and estimates their strength difference. Used by the headless match runner
+// in cli/match.ts.
+
+export interface MatchGameOptions {
+    // Time each engine gets for every move.
+    movetimeMs: number;
+    // An engine that has not answered this long after its move time is up
+    // loses on time.
+    graceMs: number;
+    // Games still running after this many plies are adjudicated as draws.
+    maxPlies: number;
+    start: Position;
+}
+
+export interface MatchGameResult {
+    game: Game;
+    // Why the game ended when the rules did not end it.
+    termination: 'adjudicated' | 'time forfeit' | 'illegal move' | null;
+}
+
+export interface MatchScore {
+    wins: number;
+    losses: number;
+    draws: number;
+}
+
+export interface EloEstimate {
+    // Elo difference of the first player over the second; infinite after a
+    // clean sweep either way.
+    elo: number;
+    // Half the width of the 95% confidence interval.
+    margin: number;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | 'timeout'> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<'timeout'>(resolve => {
+        timer = setTimeout(() => resolve('timeout'), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Plays one game. An engine that runs out of time loses on time; one that
+ * plays an illegal move, or no move while it has legal moves, forfeits.
+ */
+export async function playMatchGame(
+    engines: Record<Piece['color'], ProtocolEngineClient>,
+    options: MatchGameOptions
+): Promise<MatchGameResult> {
+    const game = new Game(options.start);
+    while (!isGameOver(game.status())) {
+        if (game.ply() >= options.maxPlies) {
+            game.offerDraw();
+            game.acceptDraw();
+            return { game, termination: 'adjudicated' };
+        }
+        const color = game.turn();
+        const engine = engines[color];
+        let answer: Awaited<ReturnType<ProtocolEngineClient['search']>> | 'timeout';
+        try {
+            answer = await withTimeout(engine.search(game.position(), { movetimeMs: options.movetimeMs }), options.movetimeMs + options.graceMs);
+        } catch {
+            game.resign(color);
+            return { game, termination: 'illegal move' };
+        }
+        if (answer === 'timeout') {
+            engine.cancel();
+            game.flag();
+            return { game, termination: 'time forfeit' };
+        }
+        if (!answer.move) {
+            game.resign(color);
+            return { game, termination: 'illegal move' };
+        }
+        game.applyMove(answer.move);
+    }
+    return { game, termination: null };
+}
+
+// The score of `color`'s player in a finished game: 1, 0.5 or 0.
+export function scoreFor(game: Game, color: Piece['color']): number {
+    const status = game.status();
+    switch (status.state) {
+        case 'checkmate':
+        case 'resigned':
+        case 'timeout':
+            return status.winner === color ? 1 : 0;
+        default:
+            return 0.5;
+    }
+}
+
+const eloFromScore = (fraction: number) => -400 * Math.log10(1 / fraction - 1);
+
+/**
+ * Estimates the Elo difference from a match score with the logistic model,
+ * with a 95% confidence interval from the spread of the game scores.
+ */
+export function estimateElo({ wins, losses, draws }: MatchScore): EloEstimate {
+    const games = wins + losses + draws;
+    if (games === 0) return { elo: 0, margin: Infinity };
+    const mean = (wins + draws / 2) / games;
+    if (mean === 0 || mean === 1) return { elo: eloFromScore(mean), margin: Infinity };
+    const variance = (wins * (1 - mean) ** 2 + losses * mean ** 2 + draws * (0.5 - mean) ** 2) / games;
+    const deviation = 1.96 * Math.sqrt(variance / games);
+    const clamp = (fraction: number) => Math.min(Math.max(fraction, 0), 1);
+    return {
+        elo: eloFromScore(mean),
+        margin: (eloFromScore(clamp(mean + deviation)) - eloFromScore(clamp(mean - deviation))) / 2
+    };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Move } from '../types';
+import { fromPositionString, initialPosition } from './gameLogic';
+import { Game } from './game';
+import { moveToCoordinates, moveToNotation, parseCoordinateMove, parseMove, parseSquare, squareToNotation } from './notation';
+import { MIDDLEGAME, positionWith } from './testBoards';
+import type { PieceSpec } from './testBoards';
+import { RAUMSCHACH_VARIANT, STANDARD_VARIANT } from './variants';
+
+const KINGS: PieceSpec[] = [['K', 'white', 4, 7, 0], ['K', 'black', 4, 7, 7]];
+
+describe('notation', () => {
+    it('writes and reads cells', () => {
+        expect(squareToNotation({ x: 4, y: 3, z: 0 })).toBe('e41');
+        expect(parseSquare('e41', 8)).toEqual({ x: 4, y: 3, z: 0 });
+        expect(parseSquare('e61', 5)).toBeNull();
+        expect(parseSquare('e4', 8)).toBeNull();
+    });
+
+    it('reads back every legal move it writes', () => {
+        const unicorns = positionWith(RAUMSCHACH_VARIANT, ['K', 'white', 2, 0, 0], ['K', 'black', 2, 4, 4], ['U', 'white', 0, 0, 1], ['U', 'white', 4, 0, 1], ['P', 'white', 1, 3, 3]);
+        for (const position of [initialPosition(), fromPositionString(MIDDLEGAME), unicorns]) {
+            const moves = new Game(position).legalMoves();
+            const texts = moves.map(move => moveToNotation(move, position));
+            expect(new Set(texts).size).toBe(texts.length);
+            moves.forEach((move, i) => {
+                expect(parseMove(texts[i], position)).toEqual(move);
+                expect(parseCoordinateMove(moveToCoordinates(move), position)).toEqual(move);
+            });
+        }
+    }, 60000);
+
+    it('writes castling, promotion and fairy pieces', () => {
+        const middlegame = fromPositionString(MIDDLEGAME);
+        const texts = new Game(middlegame).legalMoves().map(move => moveToNotation(move, middlegame));
+        expect(texts).toEqual(expect.arrayContaining(['O-O', 'O-O-O', 'c38=Q', 'c38=N+']));
+
+        const unicorn = positionWith(RAUMSCHACH_VARIANT, ['K', 'white', 2, 0, 0], ['K', 'black', 2, 4, 4], ['U', 'white', 0, 0, 1]);
+        expect(moveToNotation(parseMove('Ub23', unicorn), unicorn)).toBe('Ub23');
+        expect(() => parseMove('c38', middlegame)).toThrow('a promotion piece is required');
+        expect(() => parseMove('Qd43=Q', middlegame)).toThrow();
+    });
+
+    it('names the origin file, or the whole origin cell when the file is not enough', () => {
+        const byFile = positionWith(STANDARD_VARIANT, ...KINGS, ['R', 'white', 0, 0, 0], ['R', 'white', 7, 0, 0]);
+        const fromA: Move = { from: { x: 0, y: 0, z: 0 }, x: 3, y: 0, z: 0, capture: false };
+        expect(moveToNotation(fromA, byFile)).toBe('Rad11');
+        expect(parseMove('Rad11', byFile)).toEqual(fromA);
+        expect(parseMove('Rhd11', byFile).from).toEqual({ x: 7, y: 0, z: 0 });
+        expect(() => parseMove('Rd11', byFile)).toThrow('Ambiguous');
+
+        const byCell = positionWith(STANDARD_VARIANT, ...KINGS, ['R', 'white', 0, 0, 0], ['R', 'white', 0, 0, 6]);
+        const fromBottom: Move = { from: { x: 0, y: 0, z: 0 }, x: 0, y: 0, z: 3, capture: false };
+        expect(moveToNotation(fromBottom, byCell)).toBe('Ra11a14');
+        expect(parseMove('Ra11a14', byCell)).toEqual(fromBottom);
+        expect(parseMove('Ra17a14', byCell).from).toEqual({ x: 0, y: 0, z: 6 });
+        expect(() => parseMove('Raa14', byCell)).toThrow('Ambiguous');
+        expect(() => parseMove('Ra14', byCell)).toThrow('Ambiguous');
+
+        // A lone rival on another file only needs the file.
+        const mixed = positionWith(STANDARD_VARIANT, ...KINGS, ['R', 'white', 0, 0, 0], ['R', 'white', 0, 0, 6], ['R', 'white', 7, 0, 3]);
+        expect(moveToNotation({ from: { x: 7, y: 0, z: 3 }, x: 0, y: 0, z: 3, capture: false }, mixed)).toBe('Rha14');
+    });
+
+    it('marks checks and checkmates, and ignores the marks when reading', () => {
+        const position = positionWith(STANDARD_VARIANT, ['K', 'black', 0, 0, 0], ['K', 'white', 2, 2, 2], ['Q', 'white', 1, 1, 5]);
+        const mate: Move = { from: { x: 1, y: 1, z: 5 }, x: 1, y: 1, z: 1, capture: false };
+        const check: Move = { from: { x: 1, y: 1, z: 5 }, x: 1, y: 1, z: 0, capture: false };
+        expect(moveToNotation(mate, position)).toBe('Qb22#');
+        expect(moveToNotation(check, position)).toBe('Qb21+');
+        expect(parseMove('Qb22', position)).toEqual(mate);
+        expect(parseMove('Qb21+', position)).toEqual(check);
+        expect(() => parseMove('Qb99', position)).toThrow('not on the board');
+        expect(() => parseMove('Qh88', position)).toThrow('Illegal');
+        expect(() => parseMove('e22-e24', position)).toThrow('Malformed');
+    });
+});
@@ -0,0 +1,206 @@
+import type { Piece, Move, GameStatus, Position, Square } from '../types';
+import {
+    calculateLegalMoves,
+    calculateValidMoves,
+    enPassantTarget,
+    getGameStatus,
+    isMoveLegal,
+    isPromotionMove,
+    simulateMove,
+    PROMOTION_PIECES
+} from './gameLogic';
+import { PIECE_TYPES } from './pieces';
+
+// =====================================================================================
+// == 3D ALGEBRAIC NOTATION ==
+// =====================================================================================
+//
+// A cell is written as file letter + rank digit + layer digit, so x=4, y=3, z=0
+// is "e41". Moves follow standard algebraic notation on top of that:
+//
+//   Ne41        piece letter (none for pawns) + target cell
+//   Qxe41       "x" marks a capture
+//   Nbe41       a file letter disambiguates when several pieces of one type can
+//   Nb11e41     reach the target; if the file is not enough, the full origin cell
+//   dxe52       pawn captures always name the origin file
+//   e18=Q       promotion suffix
+//   dxe53       en passant captures are written like any other pawn capture
+//   O-O, O-O-O  king/queen side castling
+//   Qe47+ Qe47# check and checkmate markers
+//
+// Only a lone file or a full cell is used to disambiguate, since a single digit
+// could not tell a rank from a layer.
+// Fairy pieces are written with their type letter, e.g. Ue41 for a unicorn.
+//
+// Programs exchange moves in the shorter coordinate notation instead: origin
+// and target cell plus a lower case promotion letter, e.g. "b11c13" or
+// "e77e78q". Castling is written as the king's move.
+
+// "x" is reserved for captures, so files stop at "w".
+const FILES = 'abcdefghijklmnopqrstuvw';
+
+const PIECE_LETTERS = PIECE_TYPES.filter(type => type !== 'P').join('');
+const MOVE_PATTERN = new RegExp(`^([${PIECE_LETTERS}])?([a-w](?:\\d\\d)?)?(x)?([a-w]\\d\\d)(?:=([QRBN]))?$`);
+const CASTLE_PATTERN = /^(?:O-O(-O)?|0-0(-0)?)$/;
+const COORDINATE_PATTERN = /^([a-w]\d\d)([a-w]\d\d)([qrbn])?$/;
+
+export function squareToNotation(square: Square): string {
+    return `${FILES[square.x]}${square.y + 1}${square.z + 1}`;
+}
+
+export function parseSquare(text: string, size: number): Square | null {
+    const match = /^([a-w])(\d)(\d)$/.exec(text);
+    if (!match) return null;
+    const square = { x: FILES.indexOf(match[1]), y: Number(match[2]) - 1, z: Number(match[3]) - 1 };
+    const inBounds = [square.x, square.y, square.z].every(c => c >= 0 && c < size);
+    return inBounds ? square : null;
+}
+
+function legalMovesTo(target: Square, type: Piece['type'], color: Piece['color'], position: Position): Move[] {
+    const { board, enPassant, variant } = position;
+    const moves: Move[] = [];
+    board.forEach(plane => plane.forEach(row => row.forEach(piece => {
+        if (!piece || piece.type !== type || piece.color !== color) return;
+        const move = calculateValidMoves(piece, board, enPassant, variant).find(m => m.x === target.x && m.y === target.y && m.z === target.z);
+        if (move && isMoveLegal(piece, move, board, variant)) moves.push(move);
+    })));
+    return moves;
+}
+
+function disambiguation(piece: Piece, move: Move, position: Position): string {
+    const rivals = legalMovesTo(move, piece.type, piece.color, position)
+        .filter(m => m.from.x !== piece.x || m.from.y !== piece.y || m.from.z !== piece.z);
+    const needsFile = rivals.length > 0 || (piece.type === 'P' && move.capture);
+    if (!needsFile) return '';
+    if (rivals.every(m => m.from.x !== piece.x)) return FILES[piece.x];
+    return squareToNotation(piece);
+}
+
+/**
+ * Formats a legal move played from `position`. `statusAfter` can be passed
+ * when the caller already knows the resulting status, to skip recomputing it.
+ */
+export function moveToNotation(move: Move, position: Position, statusAfter?: GameStatus): string {
+    const { board, variant } = position;
+    const piece = board[move.from.x][move.from.y][move.from.z];
+    if (!piece) {
+        throw new Error(`No piece at ${squareToNotation(move.from)}`);
+    }
+
+    let text: string;
+    if (move.castle) {
+        text = move.castle === 'king' ? 'O-O' : 'O-O-O';
+    } else {
+        text = (piece.type === 'P' ? '' : piece.type)
+            + disambiguation(piece, move, position)
+            + (move.capture ? 'x' : '')
+            + squareToNotation(move)
+            + (move.promotion ? `=${move.promotion}` : '');
+    }
+
+    const opponent = piece.color === 'white' ? 'black' : 'white';
+    const status = statusAfter ?? getGameStatus(opponent, simulateMove(piece, move, board, variant), enPassantTarget(piece, move), variant);
+    if (status.state === 'checkmate') return text + '#';
+    if (status.state === 'check') return text + '+';
+    return text;
+}
+
+/**
+ * Parses a move for the side to move and resolves it against the legal moves
+ * of the position. Check markers and the capture marker are optional on input.
+ * Throws if the text is malformed, illegal or ambiguous.
+ */
+export function parseMove(text: string, position: Position): Move {
+    const { board, turn, variant } = position;
+    const cleaned = text.trim().replace(/[+#!?]+$/, '');
+    const size = board.length;
+
+    if (CASTLE_PATTERN.test(cleaned)) {
+        const side = cleaned.length > 3 ? 'queen' : 'king';
+        for (const plane of board) for (const row of plane) for (const piece of row) {
+            if (piece && piece.type === 'K' && piece.color === turn) {
+                const move = calculateLegalMoves(piece, board, null, variant).find(m => m.castle === side);
+                if (move) return move;
+            }
+        }
+        throw new Error(`Illegal move "${text}": castling is not possible`);
+    }
+
+    const match = MOVE_PATTERN.exec(cleaned);
+    if (!match) {
+        throw new Error(`Malformed move "${text}"`);
+    }
+    const [, pieceLetter, from, , targetText, promotion] = match;
+    const type = (pieceLetter ?? 'P') as Piece['type'];
+    const target = parseSquare(targetText, size);
+    if (!target) {
+        throw new Error(`Malformed move "${text}": ${targetText} is not on the board`);
+    }
+
+    let candidates = legalMovesTo(target, type, turn, position);
+    if (from && from.length === 1) {
+        candidates = candidates.filter(m => FILES[m.from.x] === from);
+    } else if (from) {
+        const origin = parseSquare(from, size);
+        if (!origin) {
+            throw new Error(`Malformed move "${text}": ${from} is not on the board`);
+        }
+        candidates = candidates.filter(m => m.from.x === origin.x && m.from.y === origin.y && m.from.z === origin.z);
+    }
+
+    if (candidates.length === 0) {
+        throw new Error(`Illegal move "${text}"`);
+    }
+    if (candidates.length > 1) {
+        throw new Error(`Ambiguous move "${text}"`);
+    }
+
+    const move = candidates[0];
+    const piece = board[move.from.x][move.from.y][move.from.z] as Piece;
+    if (isPromotionMove(piece, move, variant)) {
+        if (!promotion || !PROMOTION_PIECES.includes(promotion as Piece['type'])) {
+            throw new Error(`Illegal move "${text}": a promotion piece is required`);
+        }
+        return { ...move, promotion: promotion as Piece['type'] };
+    }
+    if (promotion) {
+        throw new Error(`Illegal move "${text}": only pawns reaching the last rank promote`);
+    }
+    return move;
+}
+
+export function moveToCoordinates(move: Move): string {
+    return squareToNotation(move.from) + squareToNotation(move) + (move.promotion ? move.promotion.toLowerCase() : '');
+}
+
+/**
+ * Parses a move in coordinate notation for the side to move. Throws if the
+ * text is malformed or the move is illegal.
+ */
+export function parseCoordinateMove(text: string, position: Position): Move {
+    const { board, turn, enPassant, variant } = position;
+    const match = COORDINATE_PATTERN.exec(text.trim());
+    const from = match && parseSquare(match[1], board.length);
+    const target = match && parseSquare(match[2], board.length);
+    if (!match || !from || !target) {
+        throw new Error(`Malformed move "${text}"`);
+    }
+    const piece = board[from.x][from.y][from.z];
+    const move = piece && piece.color === turn
+        ? calculateLegalMoves(piece, board, enPassant, variant).find(m => m.x === target.x && m.y === target.y && m.z === target.z)
+        : undefined;
+    if (!piece || !move) {
+        throw new Error(`Illegal move "${text}"`);
+    }
+    const promotion = match[3]?.toUpperCase() as Piece['type'] | undefined;
+    if (isPromotionMove(piece, move, variant)) {
+        if (!promotion) {
+            throw new Error(`Illegal move "${text}": a promotion piece is required`);
+        }
+        return { ...move, promotion };
+    }
+    if (promotion) {
+        throw new Error(`Illegal move "${text}": only pawns reaching the last rank promote`);
+    }
+    return move;
+}
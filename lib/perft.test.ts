@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { fromPositionString, initialPosition } from './gameLogic';
+import { FastBoard, isEnPassantMove } from './fastBoard';
+import { Game } from './game';
+import { INITIAL_POSITION_PERFT, fastPerft, perft } from './perft';
+import { MIDDLEGAME } from './testBoards';
+
+// Unmoved kings off the e-file: white's on c with a knight beside it, which
+// rules castling out, and black's on f, which can only castle queenside.
+const KINGS_OFF_FILE = "8/8/8/8/R1KN3R/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|"
+    + "8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/r4k1r/8/8/8 w 0 20";
+
+describe('perft', () => {
+    it('matches the reference counts through the Game class', () => {
+        for (const depth of [1, 2]) {
+            expect(perft(initialPosition(), depth)).toBe(INITIAL_POSITION_PERFT[depth]);
+        }
+    }, 60000);
+
+    it('matches the reference counts on the fast board', () => {
+        const { board, turn } = initialPosition();
+        for (const depth of [1, 2, 3]) {
+            expect(fastPerft(FastBoard.fromBoardState(board, turn), depth)).toBe(INITIAL_POSITION_PERFT[depth]);
+        }
+    }, 60000);
+
+    it('agrees between both boards in a position with castling, promotion and checks', () => {
+        const position = fromPositionString(MIDDLEGAME);
+        const fast = fastPerft(FastBoard.fromBoardState(position.board, position.turn), 2);
+        expect(perft(position, 2)).toBe(fast);
+        expect(fast).toBe(9684);
+    }, 60000);
+
+    it('agrees between both boards on castling with the king off the e-file', () => {
+        const position = fromPositionString(KINGS_OFF_FILE);
+        expect(perft(position, 2)).toBe(fastPerft(FastBoard.fromBoardState(position.board, position.turn), 2));
+    }, 60000);
+
+    it('agrees between both boards when en passant captures are possible', () => {
+        // White to move right after black's c37-c35, with a white pawn beside it on d45.
+        const game = new Game();
+        for (const [from, to] of [[[3, 3, 1], [3, 3, 3]], [[4, 4, 6], [4, 4, 4]], [[3, 3, 3], [3, 3, 4]], [[2, 2, 6], [2, 2, 4]]]) {
+            game.applyMove({ from: { x: from[0], y: from[1], z: from[2] }, x: to[0], y: to[1], z: to[2], capture: false });
+        }
+        const position = game.position();
+        expect(position.enPassant).toEqual({ x: 2, y: 2, z: 5 });
+        const fast = FastBoard.fromBoardState(position.board, position.turn, position.enPassant);
+        expect(fast.legalMoves().filter(isEnPassantMove)).toHaveLength(1);
+        expect(perft(position, 2)).toBe(fastPerft(fast, 2));
+    }, 60000);
+});
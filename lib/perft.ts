@@ -0,0 +1,58 @@
+import type { Position } from '../types';
+import { Game } from './game';
+import { FastBoard } from './fastBoard';
+
+// =====================================================================================
+// == PERFT ==
+// =====================================================================================
+//
+// Counts the leaf nodes of the legal move tree to a fixed depth. Comparing the
+// counts with known reference values, or the two board representations with
+// each other, catches regressions in move generation that single positions miss.
+
+// Reference node counts from the initial position, indexed by depth.
+export const INITIAL_POSITION_PERFT = [1, 200, 40000, 8433956];
+
+// Perft through the Game class and gameLogic.ts. Slow, but it exercises the
+// code the app itself plays with.
+export function perft(position: Position, depth: number): number {
+    return perftGame(new Game(position), depth);
+}
+
+function perftGame(game: Game, depth: number): number {
+    const moves = game.legalMoves();
+    if (depth <= 1) return depth === 1 ? moves.length : 1;
+    let nodes = 0;
+    for (const move of moves) {
+        const child = game.clone();
+        child.applyMove(move);
+        nodes += perftGame(child, depth - 1);
+    }
+    return nodes;
+}
+
+// Perft on the typed-array board, making and unmaking moves in place.
+export function fastPerft(board: FastBoard, depth: number): number {
+    if (depth === 0) return 1;
+    const moves = board.legalMoves();
+    if (depth === 1) return moves.length;
+    let nodes = 0;
+    for (const move of moves) {
+        board.makeMove(move);
+        nodes += fastPerft(board, depth - 1);
+        board.unmakeMove();
+    }
+    return nodes;
+}
+
+// Node counts per root move, to narrow a mismatch down to a single move.
+export function fastPerftDivide(board: FastBoard, depth: number): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const move of board.legalMoves()) {
+        const { from, x, y, z, promotion } = board.toMove(move);
+        board.makeMove(move);
+        counts.set(`${from.x},${from.y},${from.z}-${x},${y},${z}${promotion ?? ''}`, fastPerft(board, depth - 1));
+        board.unmakeMove();
+    }
+    return counts;
+}
@@ -0,0 +1,70 @@
+import type { MovementRule, PieceDefinition, PieceType } from '../types';
+
+// =====================================================================================
+// == PIECE DEFINITIONS ==
+// =====================================================================================
+//
+// How each piece moves, what it is worth and how it is drawn. Move generation
+// and attack detection in gameLogic.ts read the movement rules, so a piece
+// registered here needs no further code. Pawns are the exception: their
+// direction depends on the side and the variant, and their double step, en
+// passant and promotion are handled by gameLogic.ts, so they have no rules
+// here. Castling is likewise added to the king's moves by gameLogic.ts.
+
+// Every distinct vector obtained from `base` by permuting its coordinates and
+// flipping their signs, e.g. the six orthogonal directions from [1, 0, 0].
+function symmetricVectors(base: [number, number, number]): number[][] {
+    const [a, b, c] = base;
+    const permutations = [[a, b, c], [a, c, b], [b, a, c], [b, c, a], [c, a, b], [c, b, a]];
+    const vectors = new Map<string, number[]>();
+    for (const permutation of permutations) {
+        for (const sx of [1, -1]) {
+            for (const sy of [1, -1]) {
+                for (const sz of [1, -1]) {
+                    const vector = [permutation[0] * sx, permutation[1] * sy, permutation[2] * sz];
+                    vectors.set(vector.join(','), vector);
+                }
+            }
+        }
+    }
+    return [...vectors.values()];
+}
+
+const ORTHOGONALS = symmetricVectors([1, 0, 0]);
+const DIAGONALS = symmetricVectors([1, 1, 0]);
+const TRIAGONALS = symmetricVectors([1, 1, 1]);
+const KNIGHT_LEAPS = symmetricVectors([2, 1, 0]);
+
+const KNIGHT_MOVEMENT: MovementRule = { vectors: KNIGHT_LEAPS, range: 1 };
+// Bishops slide along both face and space diagonals.
+const BISHOP_MOVEMENT: MovementRule = { vectors: [...DIAGONALS, ...TRIAGONALS] };
+const ROOK_MOVEMENT: MovementRule = { vectors: ORTHOGONALS };
+const UNICORN_MOVEMENT: MovementRule = { vectors: TRIAGONALS };
+
+export const PIECES: Record<PieceType, PieceDefinition> = {
+    P: { name: 'Pawn', value: 1, symbols: { white: '♙', black: '♟' }, movement: [] },
+    N: { name: 'Knight', value: 3, symbols: { white: '♘', black: '♞' }, movement: [KNIGHT_MOVEMENT] },
+    B: { name: 'Bishop', value: 3, symbols: { white: '♗', black: '♝' }, movement: [BISHOP_MOVEMENT] },
+    R: { name: 'Rook', value: 5, symbols: { white: '♖', black: '♜' }, movement: [ROOK_MOVEMENT] },
+    Q: { name: 'Queen', value: 9, symbols: { white: '♕', black: '♛' }, movement: [ROOK_MOVEMENT, BISHOP_MOVEMENT] },
+    K: {
+        name: 'King', value: 0, symbols: { white: '♔', black: '♚' },
+        movement: [{ vectors: [...ORTHOGONALS, ...DIAGONALS, ...TRIAGONALS], range: 1 }]
+    },
+    // Raumschach's unicorn only moves along space diagonals, so it reaches a
+    // quarter of the cells.
+    U: { name: 'Unicorn', value: 2, symbols: { white: 'Ⓤ', black: '🅤' }, movement: [UNICORN_MOVEMENT], modelStandIn: 'B' },
+    // The dragon leaps like a knight or slides like a unicorn.
+    D: { name: 'Dragon', value: 5, symbols: { white: 'Ⓓ', black: '🅓' }, movement: [KNIGHT_MOVEMENT, UNICORN_MOVEMENT], modelStandIn: 'N' }
+};
+
+export const PIECE_TYPES = Object.keys(PIECES) as PieceType[];
+
+export const PIECE_VALUES = Object.fromEntries(
+    PIECE_TYPES.map(type => [type, PIECES[type].value])
+) as Record<PieceType, number>;
+
+export const PIECE_SYMBOLS = {
+    white: Object.fromEntries(PIECE_TYPES.map(type => [type, PIECES[type].symbols.white])),
+    black: Object.fromEntries(PIECE_TYPES.map(type => [type, PIECES[type].symbols.black]))
+} as Record<'white' | 'black', Record<PieceType, string>>;
@@ -0,0 +1,17 @@
+import { Game } from './game';
+import { moveToCoordinates } from './notation';
+import type { VolumetricEngine } from './engineProtocol';
+
+// Reference engine for the engine protocol: plays a uniformly random legal
+// move in any variant, without searching.
+export const RANDOM_ENGINE: VolumetricEngine = {
+    name: 'Random mover',
+    author: 'Volumetric Chess',
+    async search(position, _limits, report) {
+        const moves = new Game(position).legalMoves();
+        if (moves.length === 0) return null;
+        const move = moves[Math.floor(Math.random() * moves.length)];
+        report({ depth: 1, nodes: moves.length, pv: [moveToCoordinates(move)] });
+        return move;
+    }
+};
@@ -0,0 +1,4 @@
+import { RANDOM_ENGINE } from './randomEngine';
+import { serveEngineInWorker } from './engineTransports';
+
+serveEngineInWorker(RANDOM_ENGINE);
@@ -0,0 +1,148 @@
+import type { Move, Piece } from '../types';
+import type { Game } from './game';
+import { moveToCoordinates, parseCoordinateMove } from './notation';
+import { parseServerMessage, replayGame } from './relayProtocol';
+import type { ClientMessage, ServerMessage } from './relayProtocol';
+
+export interface RelaySession {
+    room: string;
+    // Null for spectators.
+    color: Piece['color'] | null;
+    connected: boolean;
+    opponentConnected: boolean;
+    spectators: number;
+}
+
+export interface RelayListener {
+    onSession: (session: RelaySession) => void;
+    // A fresh copy of the shared game, after a sync or an opponent's move.
+    onGame: (game: Game) => void;
+    onError: (message: string) => void;
+}
+
+const MAX_RETRY_DELAY_MS = 10_000;
+
+/**
+ * Main-thread handle on a network game through the relay server. Keeps its
+ * own copy of the game so that every move, ours or the opponent's, is checked
+ * by the game logic before it is sent or handed to the UI. A dropped
+ * connection is retried with a growing delay and the seat reclaimed with its
+ * token, or the room watched again, after which the server resyncs the game.
+ */
+export class RelayClient {
+    private socket: WebSocket | null = null;
+    private game: Game | null = null;
+    private session: RelaySession | null = null;
+    private retryDelay = 1000;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private closed = false;
+
+    // `request` creates, joins or watches the room on the first connection.
+    constructor(private url: string, private request: ClientMessage, private listener: RelayListener) {
+        this.connect();
+    }
+
+    /**
+     * Sends a move of our side. Throws if we are not connected or the move is
+     * not legal in the shared game.
+     */
+    sendMove(move: Move): void {
+        if (!this.game || !this.session?.connected || this.socket?.readyState !== WebSocket.OPEN) {
+            throw new Error('Not connected to the relay');
+        }
+        if (this.game.turn() !== this.session.color) {
+            throw new Error('It is not your turn');
+        }
+        const ply = this.game.ply();
+        const played = this.game.applyMove(move);
+        this.send({ type: 'move', ply, move: moveToCoordinates(played) });
+    }
+
+    close(): void {
+        this.closed = true;
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.socket?.close();
+        this.socket = null;
+    }
+
+    private connect(): void {
+        const socket = new WebSocket(this.url);
+        this.socket = socket;
+        socket.onopen = () => {
+            this.retryDelay = 1000;
+            this.send(this.request);
+        };
+        socket.onmessage = (event: MessageEvent<string>) => {
+            const message = parseServerMessage(event.data);
+            if (message) this.receive(message);
+        };
+        socket.onclose = () => {
+            if (this.socket !== socket || this.closed) return;
+            this.socket = null;
+            if (!this.session) {
+                this.close();
+                this.listener.onError(`Could not reach the relay at ${this.url}`);
+                return;
+            }
+            this.updateSession({ connected: false, opponentConnected: false });
+            this.retryTimer = setTimeout(() => this.connect(), this.retryDelay);
+            this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+        };
+    }
+
+    private receive(message: ServerMessage): void {
+        switch (message.type) {
+            case 'joined':
+                // Reconnections reclaim the seat with its token.
+                this.request = { type: 'join', room: message.room, token: message.token };
+                this.session = { room: message.room, color: message.color, connected: true, opponentConnected: false, spectators: 0 };
+                this.listener.onSession(this.session);
+                return;
+            case 'watching':
+                this.request = { type: 'watch', room: message.room };
+                this.session = { room: message.room, color: null, connected: true, opponentConnected: false, spectators: 0 };
+                this.listener.onSession(this.session);
+                return;
+            case 'sync':
+                try {
+                    this.game = replayGame(message.start, message.moves);
+                    this.listener.onGame(this.game.clone());
+                } catch (error) {
+                    this.listener.onError(`Could not replay the shared game: ${(error as Error).message}`);
+                }
+                return;
+            case 'move':
+                if (!this.game || message.ply !== this.game.ply()) {
+                    this.send({ type: 'sync' });
+                    return;
+                }
+                try {
+                    this.game.applyMove(parseCoordinateMove(message.move, this.game.position()));
+                    this.listener.onGame(this.game.clone());
+                } catch {
+                    this.send({ type: 'sync' });
+                }
+                return;
+            case 'presence':
+                if (this.session) this.updateSession({ opponentConnected: message.opponentConnected });
+                return;
+            case 'spectators':
+                if (this.session) this.updateSession({ spectators: message.count });
+                return;
+            case 'error':
+                // Without a seat there is nothing to retry, e.g. an unknown room code.
+                if (!this.session) this.close();
+                this.listener.onError(message.message);
+                return;
+        }
+    }
+
+    private updateSession(change: Partial<RelaySession>): void {
+        this.session = { ...(this.session as RelaySession), ...change };
+        this.listener.onSession(this.session);
+    }
+
+    private send(message: ClientMessage): void {
+        if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+    }
+}
@@ -0,0 +1,120 @@
+import type { Piece } from '../types';
+import { toPositionString } from './gameLogic';
+import { Game } from './game';
+import { moveToCoordinates, parseCoordinateMove } from './notation';
+
+// =====================================================================================
+// == NETWORK PLAY PROTOCOL ==
+// =====================================================================================
+//
+// Messages exchanged as JSON text over a WebSocket between the app and the relay
+// server in server/. A player creates a room from a starting position string
+// and gets a short room code to share; the opponent joins with that code. Each
+// seat comes with a token that reclaims it after a dropped connection. Anyone
+// else with the code can watch: spectators receive the game and every move but
+// cannot play, and everybody in the room is told how many are watching.
+//
+//   client -> server                        server -> client
+//   { type: 'create', start, color }        { type: 'joined', room, color, token }
+//   { type: 'join', room, token? }          { type: 'watching', room }
+//   { type: 'watch', room }                 { type: 'sync', start, moves }
+//   { type: 'move', ply, move }             { type: 'move', ply, move }
+//   { type: 'sync' }                        { type: 'presence', opponentConnected }
+//                                           { type: 'spectators', count }
+//                                           { type: 'error', message }
+//
+// Moves travel in coordinate notation (see notation.ts) together with the ply
+// they are played from. Both ends replay them through the shared game logic
+// and answer anything they cannot apply with a full sync of the game.
+
+export type ClientMessage =
+    | { type: 'create'; start: string; color: Piece['color'] }
+    | { type: 'join'; room: string; token?: string }
+    | { type: 'watch'; room: string }
+    | { type: 'move'; ply: number; move: string }
+    | { type: 'sync' };
+
+export type ServerMessage =
+    | { type: 'joined'; room: string; color: Piece['color']; token: string }
+    | { type: 'watching'; room: string }
+    | { type: 'sync'; start: string; moves: string[] }
+    | { type: 'move'; ply: number; move: string }
+    | { type: 'presence'; opponentConnected: boolean }
+    | { type: 'spectators'; count: number }
+    | { type: 'error'; message: string };
+
+const isColor = (value: unknown): value is Piece['color'] => value === 'white' || value === 'black';
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNatural = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+function parseJson(text: string): Record<string, unknown> | null {
+    try {
+        const value: unknown = JSON.parse(text);
+        return value && typeof value === 'object' ? value as Record<string, unknown> : null;
+    } catch {
+        return null;
+    }
+}
+
+// Checks the shape of a message from the other end; null if it is malformed.
+export function parseClientMessage(text: string): ClientMessage | null {
+    const message = parseJson(text);
+    switch (message?.type) {
+        case 'create':
+            return isString(message.start) && isColor(message.color) ? { type: 'create', start: message.start, color: message.color } : null;
+        case 'join':
+            if (!isString(message.room) || (message.token !== undefined && !isString(message.token))) return null;
+            return { type: 'join', room: message.room, ...(message.token !== undefined && { token: message.token as string }) };
+        case 'watch':
+            return isString(message.room) ? { type: 'watch', room: message.room } : null;
+        case 'move':
+            return isNatural(message.ply) && isString(message.move) ? { type: 'move', ply: message.ply, move: message.move } : null;
+        case 'sync':
+            return { type: 'sync' };
+        default:
+            return null;
+    }
+}
+
+export function parseServerMessage(text: string): ServerMessage | null {
+    const message = parseJson(text);
+    switch (message?.type) {
+        case 'joined':
+            return isString(message.room) && isColor(message.color) && isString(message.token)
+                ? { type: 'joined', room: message.room, color: message.color, token: message.token }
+                : null;
+        case 'watching':
+            return isString(message.room) ? { type: 'watching', room: message.room } : null;
+        case 'sync':
+            return isString(message.start) && Array.isArray(message.moves) && message.moves.every(isString)
+                ? { type: 'sync', start: message.start, moves: message.moves }
+                : null;
+        case 'move':
+            return isNatural(message.ply) && isString(message.move) ? { type: 'move', ply: message.ply, move: message.move } : null;
+        case 'presence':
+            return typeof message.opponentConnected === 'boolean' ? { type: 'presence', opponentConnected: message.opponentConnected } : null;
+        case 'spectators':
+            return isNatural(message.count) ? { type: 'spectators', count: message.count } : null;
+        case 'error':
+            return isString(message.message) ? { type: 'error', message: message.message } : null;
+        default:
+            return null;
+    }
+}
+
+// The game a sync message describes. Throws if the position or a move is invalid.
+export function replayGame(start: string, moves: string[]): Game {
+    const game = Game.fromPositionString(start);
+    for (const move of moves) {
+        game.applyMove(parseCoordinateMove(move, game.position()));
+    }
+    return game;
+}
+
+export function syncMessage(game: Game): ServerMessage {
+    return {
+        type: 'sync',
+        start: toPositionString(game.startPosition()),
+        moves: game.history().slice(0, game.ply()).map(record => moveToCoordinates(record.move))
+    };
+}
@@ -0,0 +1,38 @@
+import type { BoardState, Piece, Position, Variant } from '../types';
+import { STANDARD_VARIANT } from './variants';
+
+// =====================================================================================
+// == TEST BOARDS ==
+// =====================================================================================
+//
+// Fixtures shared by the test files: boards and positions built from a list of
+// pieces.
+
+// A piece as type, colour, cell and whether it has moved. Pieces count as moved
+// unless the spec says otherwise, so kings and rooks only castle when a test
+// asks for it.
+export type PieceSpec = [Piece['type'], Piece['color'], number, number, number, boolean?];
+
+function placePieces(size: number, specs: PieceSpec[]): BoardState {
+    const board: BoardState = Array.from({ length: size }, () =>
+        Array.from({ length: size }, () => Array<Piece | null>(size).fill(null)));
+    for (const [type, color, x, y, z, hasMoved = true] of specs) {
+        board[x][y][z] = { type, color, x, y, z, hasMoved };
+    }
+    return board;
+}
+
+// A standard-size board holding only the given pieces.
+export function boardWith(...specs: PieceSpec[]): BoardState {
+    return placePieces(STANDARD_VARIANT.size, specs);
+}
+
+// White to move in `variant` with only the given pieces on the board.
+export function positionWith(variant: Variant, ...specs: PieceSpec[]): Position {
+    return { variant, board: placePieces(variant.size, specs), turn: 'white', enPassant: null, halfmoveClock: 0, fullmoveNumber: 1 };
+}
+
+// Both sides can castle either way, a pawn on each side is about to promote and
+// the queen and knight in the middle can give checks.
+export const MIDDLEGAME = "8/8/8/8/R3K2R/8/8/8|8/8/5p'2/8/8/8/8/8|8/8/8/8/8/8/8/8|8/8/8/8/3Q'4/8/8/8|"
+    + "8/8/8/8/8/8/8/8|8/8/8/8/2n'5/8/8/8|8/8/8/8/8/2P'5/8/8|8/8/8/8/r3k2r/8/8/8 w 0 20";
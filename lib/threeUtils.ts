@@ -1,7 +1,8 @@
 import * as THREE from 'three';
 import { OBJLoader } from 'three/addons/loaders/OBJLoader.js';
-import { SIZE, CELL_SIZE, BOARD_BOUNDS, CENTER_OFFSET } from '../types';
-import type { Piece } from '../types';
+import { CELL_SIZE } from '../types';
+import type { OrthodoxPieceType, Piece } from '../types';
+import { PIECES } from './pieces';
 // Load the default fallback contents of the chess.obj file
 import { CHESS_OBJ_FILE_CONTENTS } from './chessObjFileContents';
 
@@ -12,7 +13,7 @@ const GRID_OPACITY = 0.4;
 
 export async function loadAssets(
     customObjContent: string | undefined, 
-    pieceNameMapping: Record<Piece['type'], string>
+    pieceNameMapping: Record<OrthodoxPieceType, string>
 ): Promise<Record<string, THREE.Object3D>> {
     const loader = new OBJLoader();
     const pieceModels: Record<string, THREE.Object3D> = {};
@@ -65,17 +66,17 @@ export async function loadAssets(
     }
     // --- End of New Parser ---
 
-    let loadedPieceTypes = new Set<Piece['type']>();
+    let loadedPieceTypes = new Set<OrthodoxPieceType>();
 
     // Use the AI-provided mapping to find and build each piece model
     for (const pieceType in pieceNameMapping) {
-        const objectName = pieceNameMapping[pieceType as Piece['type']];
+        const objectName = pieceNameMapping[pieceType as OrthodoxPieceType];
         // Look up using the same case-insensitive logic
         const objString = objectChunkMap.get(objectName.toLowerCase());
 
         if (objString) {
             pieceModels[pieceType] = createModel(objString, objectName);
-            loadedPieceTypes.add(pieceType as Piece['type']);
+            loadedPieceTypes.add(pieceType as OrthodoxPieceType);
         }
     }
     
@@ -86,16 +87,43 @@ export async function loadAssets(
     return pieceModels;
 }
 
-export function getCellWorldPosition(x: number, y: number, z: number): THREE.Vector3 {
+// World-space width of a board with `size` cells per side.
+export function boardBounds(size: number): number {
+    return size * CELL_SIZE;
+}
+
+// Distance from the board's center to the center of its first cell.
+export function centerOffset(size: number): number {
+    return boardBounds(size) / 2 - (CELL_SIZE / 2);
+}
+
+// World height of the centre of layer `z`. A layer spacing above 1 spreads
+// the layers apart, `layerSpacing` cell heights from centre to centre, so the
+// inner layers of the cube can be seen.
+export function layerWorldHeight(z: number, size: number, layerSpacing: number = 1): number {
+    return (z * CELL_SIZE - centerOffset(size)) * layerSpacing + CELL_SIZE;
+}
+
+export function getCellWorldPosition(x: number, y: number, z: number, size: number, layerSpacing: number = 1): THREE.Vector3 {
+    const offset = centerOffset(size);
     return new THREE.Vector3(
-        x * CELL_SIZE - CENTER_OFFSET,
-        z * CELL_SIZE - CENTER_OFFSET + CELL_SIZE, 
-        y * CELL_SIZE - CENTER_OFFSET
+        x * CELL_SIZE - offset,
+        layerWorldHeight(z, size, layerSpacing),
+        y * CELL_SIZE - offset
     );
 }
 
-export function createPieceMesh(pieceData: Piece, pieceModels: Record<string, THREE.Object3D>): THREE.Object3D {
-    const model = pieceModels[pieceData.type];
+// Pieces sit a little below the centre of their cell, so they stand firmly
+// on the board layer.
+export function getPieceWorldPosition(x: number, y: number, z: number, size: number, layerSpacing: number = 1): THREE.Vector3 {
+    const position = getCellWorldPosition(x, y, z, size, layerSpacing);
+    position.y -= CELL_SIZE * 0.1;
+    return position;
+}
+
+export function createPieceMesh(pieceData: Piece, pieceModels: Record<string, THREE.Object3D>, size: number, layerSpacing: number = 1): THREE.Object3D {
+    const standIn = PIECES[pieceData.type].modelStandIn;
+    const model = pieceModels[pieceData.type] ?? (standIn && pieceModels[standIn]);
     if (!model) {
         console.error(`Model for piece type ${pieceData.type} not found!`);
         return new THREE.Group();
@@ -113,14 +141,9 @@ export function createPieceMesh(pieceData: Piece, pieceModels: Record<string, TH
         }
     });
 
-    const worldPos = getCellWorldPosition(pieceData.x, pieceData.y, pieceData.z);
-    
     const scale = 3.5;
     pieceGroup.scale.multiplyScalar(scale);
-    pieceGroup.position.copy(worldPos);
-    // This adjustment lowers the piece's center relative to the cell's center,
-    // making it sit more firmly on the board layer.
-    pieceGroup.position.y -= (CELL_SIZE * 0.1); 
+    pieceGroup.position.copy(getPieceWorldPosition(pieceData.x, pieceData.y, pieceData.z, size, layerSpacing));
 
     if (pieceData.type === 'N') {
         pieceGroup.rotation.y = pieceData.color === 'white' ? -Math.PI / 2 : Math.PI / 2;
@@ -132,48 +155,108 @@ export function createPieceMesh(pieceData: Piece, pieceModels: Record<string, TH
     return pieceGroup;
 }
 
-export function create3DBoard(group: THREE.Group) {
-    const gridAndPlaneGroup = new THREE.Group();
+/**
+ * Builds the board's grid into `group`, one child group per layer named
+ * `layer_<z>` with its layer in userData, so layers can be shown, hidden and
+ * faded one by one (see setBoardLayerOpacity) and spread apart without being
+ * rebuilt (see setBoardLayerSpacing). The bottom layer also carries the
+ * floor. Each layer draws the cell walls along x and the lines of its floor;
+ * the lines along its top are only shown while the layers are spread apart,
+ * or on the top layer, since the layer above draws them otherwise.
+ */
+export function create3DBoard(group: THREE.Group, size: number, layerSpacing: number = 1) {
+    const bounds = boardBounds(size);
+    const min = -bounds / 2;
+    const max = bounds / 2;
 
-    const geometry = new THREE.BufferGeometry();
-    const positions: number[] = [];
-    const addLine = (p1: {x:number, y:number, z:number}, p2: {x:number, y:number, z:number}) => { positions.push(p1.x, p1.y, p1.z, p2.x, p2.y, p2.z); };
+    for (let z = 0; z < size; z++) {
+        const layer = new THREE.Group();
+        layer.name = `layer_${z}`;
+        layer.userData = { z };
 
-    const min = -BOARD_BOUNDS / 2;
-    const max = BOARD_BOUNDS / 2;
+        const bottom = layerWorldHeight(z, size) - CELL_SIZE / 2;
+        const top = bottom + CELL_SIZE;
+        const lines = (addLines: (addLine: (p1: {x:number, y:number, z:number}, p2: {x:number, y:number, z:number}) => void) => void) => {
+            const positions: number[] = [];
+            addLines((p1, p2) => { positions.push(p1.x, p1.y, p1.z, p2.x, p2.y, p2.z); });
+            const geometry = new THREE.BufferGeometry();
+            geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+            const material = new THREE.LineBasicMaterial({
+                color: GRID_COLOR,
+                transparent: true,
+                opacity: GRID_OPACITY
+            });
+            return new THREE.LineSegments(geometry, material);
+        };
 
-    for (let i = 0; i <= SIZE; i++) {
-        const coord = i * CELL_SIZE + min;
-        const zCoord = coord;
+        layer.add(lines(addLine => {
+            for (let i = 0; i <= size; i++) {
+                const zCoord = i * CELL_SIZE + min;
+                for (let j = 0; j <= size; j++) {
+                    const innerCoord = j * CELL_SIZE + min;
+                    addLine({ x: innerCoord, y: bottom, z: zCoord }, { x: innerCoord, y: top, z: zCoord });
+                }
+                addLine({ x: min, y: bottom, z: zCoord }, { x: max, y: bottom, z: zCoord });
+            }
+        }));
+        const lid = lines(addLine => {
+            for (let i = 0; i <= size; i++) {
+                const zCoord = i * CELL_SIZE + min;
+                addLine({ x: min, y: top, z: zCoord }, { x: max, y: top, z: zCoord });
+            }
+        });
+        lid.name = 'layer_top';
+        layer.add(lid);
 
-        for(let j=0; j<=SIZE; j++) {
-             const innerCoord = j * CELL_SIZE + min;
-             addLine({ x: innerCoord, y: min, z: zCoord }, { x: innerCoord, y: max, z: zCoord });
-             addLine({ x: min, y: innerCoord, z: zCoord }, { x: max, y: innerCoord, z: zCoord });
+        if (z === 0) {
+            const planeGeometry = new THREE.PlaneGeometry(bounds, bounds);
+            const planeMaterial = new THREE.MeshLambertMaterial({
+                color: 0x475569,
+                side: THREE.DoubleSide
+            });
+            const plane = new THREE.Mesh(planeGeometry, planeMaterial);
+            plane.rotation.x = -Math.PI / 2;
+            plane.position.y = bottom - 0.01;
+            plane.receiveShadow = true;
+            layer.add(plane);
         }
+
+        group.add(layer);
     }
+    setBoardLayerSpacing(group, size, layerSpacing);
+}
 
-    geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
-    const material = new THREE.LineBasicMaterial({
-        color: GRID_COLOR,
-        transparent: true,
-        opacity: GRID_OPACITY
+// Spreads the layers built by create3DBoard `layerSpacing` cell heights apart.
+export function setBoardLayerSpacing(group: THREE.Group, size: number, layerSpacing: number) {
+    group.children.forEach(layer => {
+        const { z } = layer.userData;
+        layer.position.y = layerWorldHeight(z, size, layerSpacing) - layerWorldHeight(z, size);
+        const lid = layer.getObjectByName('layer_top');
+        if (lid) lid.visible = layerSpacing > 1 || z === size - 1;
     });
-    const grid = new THREE.LineSegments(geometry, material);
+}
 
-    const planeGeometry = new THREE.PlaneGeometry(BOARD_BOUNDS, BOARD_BOUNDS);
-    const planeMaterial = new THREE.MeshLambertMaterial({
-        color: 0x475569,
-        side: THREE.DoubleSide
+// Removes `object` and frees the geometries and materials in it. Piece meshes
+// share their model's geometry and go through their own cleanup instead.
+export function disposeObject(object: THREE.Object3D) {
+    object.removeFromParent();
+    object.traverse(child => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+            child.geometry.dispose();
+            (Array.isArray(child.material) ? child.material : [child.material]).forEach(material => material.dispose());
+        }
     });
-    const plane = new THREE.Mesh(planeGeometry, planeMaterial);
-    plane.rotation.x = -Math.PI / 2;
-    plane.position.y = min - 0.01;
-    plane.receiveShadow = true;
-    
-    gridAndPlaneGroup.add(plane);
-    gridAndPlaneGroup.add(grid);
-    
-    group.add(gridAndPlaneGroup);
-    gridAndPlaneGroup.position.y += CELL_SIZE;
-}
\ No newline at end of file
+}
+
+// Fades a layer built by create3DBoard; 1 draws it as built.
+export function setBoardLayerOpacity(layer: THREE.Object3D, opacity: number) {
+    layer.traverse(child => {
+        if (child instanceof THREE.LineSegments && child.material instanceof THREE.LineBasicMaterial) {
+            child.material.opacity = GRID_OPACITY * opacity;
+        } else if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshLambertMaterial) {
+            child.material.transparent = opacity < 1;
+            child.material.opacity = opacity;
+            child.material.depthWrite = opacity === 1;
+        }
+    });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { Move, Piece } from '../types';
+import {
+    calculateLegalMoves,
+    fromPositionString,
+    initialPosition,
+    isPromotionMove,
+    toPositionString
+} from './gameLogic';
+import { Game } from './game';
+import { exportGameRecord, importGameRecord } from './gameRecord';
+import { parseMove } from './notation';
+import { RAUMSCHACH_VARIANT, SMALL_VARIANT, STANDARD_VARIANT, VARIANTS } from './variants';
+
+const move = (from: [number, number, number], to: [number, number, number]): Move =>
+    ({ from: { x: from[0], y: from[1], z: from[2] }, x: to[0], y: to[1], z: to[2], capture: false });
+
+describe('variants', () => {
+    it('define a full cube with one king per side', () => {
+        for (const variant of VARIANTS) {
+            expect(variant.setup).toHaveLength(variant.size);
+            expect(variant.setup.every(layer => layer.length === variant.size && layer.every(row => row.length === variant.size))).toBe(true);
+            const pieces = initialPosition(variant).board.flat(2).filter((p): p is Piece => p !== null);
+            expect(pieces.filter(p => p.type === 'K' && p.color === 'white')).toHaveLength(1);
+            expect(pieces.filter(p => p.type === 'K' && p.color === 'black')).toHaveLength(1);
+            expect(new Game(initialPosition(variant)).status()).toEqual({ state: 'active' });
+        }
+    });
+
+    it('round-trip through position strings', () => {
+        for (const variant of VARIANTS) {
+            const position = fromPositionString(toPositionString(initialPosition(variant)));
+            expect(position.variant).toBe(variant);
+            expect(toPositionString(position)).toBe(toPositionString(initialPosition(variant)));
+        }
+        expect(() => fromPositionString('8/8/8/8/8/8/8/8 w - 0 1')).toThrow();
+    });
+
+    it('move Raumschach pawns along y without a double step', () => {
+        const { board } = initialPosition(RAUMSCHACH_VARIANT);
+        const pawn = board[2][1][0] as Piece;
+        const targets = calculateLegalMoves(pawn, board, null, RAUMSCHACH_VARIANT).map(m => `${m.x},${m.y},${m.z}`);
+        expect(targets).toEqual(['2,2,0']);
+    });
+
+    it('promote Raumschach pawns on the far rank', () => {
+        const pawn: Piece = { type: 'P', color: 'white', x: 0, y: 3, z: 2, hasMoved: true };
+        expect(isPromotionMove(pawn, move([0, 3, 2], [0, 4, 2]), RAUMSCHACH_VARIANT)).toBe(true);
+        expect(isPromotionMove(pawn, move([0, 3, 2], [0, 3, 4]), RAUMSCHACH_VARIANT)).toBe(false);
+    });
+
+    it('allow en passant after a double step on the small board', () => {
+        const game = new Game(initialPosition(SMALL_VARIANT));
+        game.applyMove(move([2, 2, 1], [2, 2, 2]));
+        game.applyMove(move([3, 3, 4], [3, 3, 2]));
+        expect(game.position().enPassant).toEqual({ x: 3, y: 3, z: 3 });
+        const capture = parseMove('cxd44', game.position());
+        expect(capture).toMatchObject({ x: 3, y: 3, z: 3, enPassant: true });
+        game.applyMove(capture);
+        expect(game.pieceAt({ x: 3, y: 3, z: 2 })).toBeNull();
+    });
+
+    it('only allow castling where the variant defines it', () => {
+        for (const variant of [SMALL_VARIANT, RAUMSCHACH_VARIANT]) {
+            expect(new Game(initialPosition(variant)).castlingRights()).toEqual({
+                white: { king: false, queen: false },
+                black: { king: false, queen: false }
+            });
+        }
+        expect(new Game(initialPosition(STANDARD_VARIANT)).castlingRights().white).toEqual({ king: true, queen: true });
+    });
+
+    it('survive a game record round trip', () => {
+        const game = new Game(initialPosition(RAUMSCHACH_VARIANT));
+        game.applyMove(move([2, 1, 0], [2, 2, 0]));
+        game.applyMove(move([2, 3, 4], [2, 2, 4]));
+        const text = exportGameRecord(game);
+        expect(text).toContain(`[Variant "${RAUMSCHACH_VARIANT.name}"]`);
+        expect(text).toContain('[Position "initial"]');
+        const imported = importGameRecord(text).game;
+        expect(imported.variant()).toBe(RAUMSCHACH_VARIANT);
+        expect(imported.toPositionString()).toBe(game.toPositionString());
+        expect(() => importGameRecord(text.replace(RAUMSCHACH_VARIANT.name, SMALL_VARIANT.name))).toThrow();
+        expect(() => importGameRecord(text.replace(RAUMSCHACH_VARIANT.name, 'Hexagonal'))).toThrow();
+    });
+});
@@ -0,0 +1,102 @@
+import type { Variant } from '../types';
+
+// =====================================================================================
+// == VARIANTS ==
+// =====================================================================================
+//
+// Each variant fixes the board size, the starting setup and the pawn and
+// castling rules (see the Variant type). The variant name doubles as the
+// Variant tag of game records. Every board size has at most one variant, which
+// is how position strings, which only encode the board, find theirs.
+
+const emptyLayer = (size: number) => Array<string>(size).fill('.'.repeat(size));
+const blackLayer = (layer: string[]) => layer.map(row => row.toLowerCase());
+
+const STANDARD_MAJOR_LAYER = [
+    'RNBRRBNR',
+    'NNBNNBNN',
+    'BBBQQBBB',
+    'RNQQKQNR',
+    'RNQQQQNR',
+    'BBBQQBBB',
+    'NNBNNBNN',
+    'RNBRRBNR'
+];
+const STANDARD_PAWN_LAYER = Array<string>(8).fill('PPPPPPPP');
+
+export const STANDARD_VARIANT: Variant = {
+    name: 'Volumetric 8x8x8',
+    size: 8,
+    setup: [
+        STANDARD_MAJOR_LAYER,
+        STANDARD_PAWN_LAYER,
+        emptyLayer(8),
+        emptyLayer(8),
+        emptyLayer(8),
+        emptyLayer(8),
+        blackLayer(STANDARD_PAWN_LAYER),
+        blackLayer(STANDARD_MAJOR_LAYER)
+    ],
+    pawnAxis: 'z',
+    pawnStart: { white: 1, black: 6 },
+    promotion: { white: 7, black: 0 },
+    castling: { white: { y: 3, z: 0 }, black: { y: 3, z: 7 } }
+};
+
+// Raumschach's 5x5x5 setup: each side holds the two layers nearest to it, with
+// pieces on the back row and pawns in front, and pawns advance along y
+// without a double step.
+export const RAUMSCHACH_VARIANT: Variant = {
+    name: 'Raumschach 5x5x5',
+    size: 5,
+    setup: [
+        ['RNKNR', 'PPPPP', '.....', '.....', '.....'],
+        ['BUQBU', 'PPPPP', '.....', '.....', '.....'],
+        emptyLayer(5),
+        ['.....', '.....', '.....', 'ppppp', 'buqbu'],
+        ['.....', '.....', '.....', 'ppppp', 'rnknr']
+    ],
+    pawnAxis: 'y',
+    pawnStart: null,
+    promotion: { white: 4, black: 0 },
+    castling: null
+};
+
+// A smaller cube in the style of the standard game. A six-cell row leaves no
+// room for the king to castle two cells towards either rook.
+const SMALL_MAJOR_LAYER = [
+    'RNBBNR',
+    'NBQQBN',
+    'BQKQQB',
+    'BQQQQB',
+    'NBQQBN',
+    'RNBBNR'
+];
+const SMALL_PAWN_LAYER = Array<string>(6).fill('PPPPPP');
+
+export const SMALL_VARIANT: Variant = {
+    name: 'Volumetric 6x6x6',
+    size: 6,
+    setup: [
+        SMALL_MAJOR_LAYER,
+        SMALL_PAWN_LAYER,
+        emptyLayer(6),
+        emptyLayer(6),
+        blackLayer(SMALL_PAWN_LAYER),
+        blackLayer(SMALL_MAJOR_LAYER)
+    ],
+    pawnAxis: 'z',
+    pawnStart: { white: 1, black: 4 },
+    promotion: { white: 5, black: 0 },
+    castling: null
+};
+
+export const VARIANTS: Variant[] = [STANDARD_VARIANT, SMALL_VARIANT, RAUMSCHACH_VARIANT];
+
+export function findVariant(name: string): Variant | null {
+    return VARIANTS.find(variant => variant.name === name) ?? null;
+}
+
+export function findVariantBySize(size: number): Variant | null {
+    return VARIANTS.find(variant => variant.size === size) ?? null;
+}
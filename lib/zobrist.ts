@@ -0,0 +1,86 @@
+import type { Piece, Position } from '../types';
+import { getCastlingRights } from './gameLogic';
+import { PIECE_TYPES } from './pieces';
+
+// =====================================================================================
+// == POSITION HASHING ==
+// =====================================================================================
+//
+// Zobrist hashing: every piece on every cell, the side to move, each castling
+// right and each en passant cell has a fixed random 64-bit key, and the hash of
+// a position is the XOR of the keys that apply to it. Positions with equal
+// hashes count as repetitions of each other. The keys come from a seeded
+// generator, so hashes stay the same between sessions. Keys are indexed by cell
+// as on the largest board; smaller boards use a part of them.
+
+const MASK_64 = (1n << 64n) - 1n;
+const MAX_SIZE = 8;
+const CELL_COUNT = MAX_SIZE * MAX_SIZE * MAX_SIZE;
+const squareIndex = (x: number, y: number, z: number) => x + MAX_SIZE * (y + MAX_SIZE * z);
+
+// SplitMix64
+let state = 0x3d3d3d3dn;
+function nextKey(): bigint {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+}
+
+const COLORS: Piece['color'][] = ['white', 'black'];
+
+const keysPerCell = () => Array.from({ length: CELL_COUNT }, nextKey);
+const PIECE_KEYS = Object.fromEntries(COLORS.map(color =>
+    [color, Object.fromEntries(PIECE_TYPES.map(type => [type, keysPerCell()]))]
+)) as Record<Piece['color'], Record<Piece['type'], bigint[]>>;
+const BLACK_TO_MOVE_KEY = nextKey();
+const CASTLING_KEYS = Object.fromEntries(COLORS.map(color =>
+    [color, { king: nextKey(), queen: nextKey() }]
+)) as Record<Piece['color'], { king: bigint; queen: bigint }>;
+const EN_PASSANT_KEYS = keysPerCell();
+
+// An en passant cell only changes the position when a pawn can capture onto it.
+function canCaptureEnPassant(position: Position): boolean {
+    const { board, turn, enPassant, variant } = position;
+    if (!enPassant) return false;
+    const size = board.length;
+    const back = turn === 'white' ? -1 : 1;
+    for (const a of [-1, 0, 1]) {
+        for (const b of [-1, 0, 1]) {
+            if (a === 0 && b === 0) continue;
+            const x = enPassant.x + a;
+            const [y, z] = variant.pawnAxis === 'z'
+                ? [enPassant.y + b, enPassant.z + back]
+                : [enPassant.y + back, enPassant.z + b];
+            if ([x, y, z].some(c => c < 0 || c >= size)) continue;
+            const piece = board[x][y][z];
+            if (piece && piece.type === 'P' && piece.color === turn) return true;
+        }
+    }
+    return false;
+}
+
+export function hashPosition(position: Position): bigint {
+    const { board, turn, enPassant, variant } = position;
+    const size = board.length;
+    let hash = 0n;
+    for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+            for (let z = 0; z < size; z++) {
+                const piece = board[x][y][z];
+                if (piece) hash ^= PIECE_KEYS[piece.color][piece.type][squareIndex(x, y, z)];
+            }
+        }
+    }
+    if (turn === 'black') hash ^= BLACK_TO_MOVE_KEY;
+    for (const color of COLORS) {
+        const rights = getCastlingRights(color, board, variant);
+        if (rights.king) hash ^= CASTLING_KEYS[color].king;
+        if (rights.queen) hash ^= CASTLING_KEYS[color].queen;
+    }
+    if (enPassant && canCaptureEnPassant(position)) {
+        hash ^= EN_PASSANT_KEYS[squareIndex(enPassant.x, enPassant.y, enPassant.z)];
+    }
+    return hash;
+}
@@ -0,0 +1,36 @@
+import { WebSocketServer } from 'ws';
+import type { RelayConnection } from './relayRooms';
+import { RelayRooms } from './relayRooms';
+
+// =====================================================================================
+// == NETWORK PLAY RELAY ==
+// =====================================================================================
+//
+// Small WebSocket server that pairs two players in a room and relays their
+// moves to each other and to any spectators (see lib/relayProtocol.ts). Start
+// it with `npm run relay`; it listens on localhost:8787 unless RELAY_HOST or
+// RELAY_PORT say otherwise. RELAY_HOST=0.0.0.0 lets other machines on the LAN
+// play or watch.
+
+const host = process.env.RELAY_HOST || 'localhost';
+const port = Number(process.env.RELAY_PORT || 8787);
+
+const rooms = new RelayRooms();
+const server = new WebSocketServer({ host, port });
+
+server.on('connection', socket => {
+    const connection: RelayConnection = {
+        send: message => {
+            if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+        }
+    };
+    socket.on('message', data => rooms.receive(connection, data.toString()));
+    socket.on('close', () => rooms.disconnect(connection));
+    socket.on('error', error => console.error('Relay connection error:', error));
+});
+
+server.on('listening', () => console.log(`Volumetric chess relay listening on ws://${host}:${port}`));
+server.on('error', error => {
+    console.error('Relay server error:', error);
+    process.exit(1);
+});
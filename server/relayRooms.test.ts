@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { initialPosition, toPositionString } from '../lib/gameLogic';
+import { parseClientMessage, parseServerMessage, replayGame } from '../lib/relayProtocol';
+import type { ClientMessage, ServerMessage } from '../lib/relayProtocol';
+import { RelayRooms } from './relayRooms';
+import type { RelayConnection } from './relayRooms';
+
+class FakeConnection implements RelayConnection {
+    received: ServerMessage[] = [];
+
+    send(message: ServerMessage): void {
+        // Round trip through JSON like the real transport.
+        this.received.push(parseServerMessage(JSON.stringify(message)) as ServerMessage);
+    }
+
+    last<T extends ServerMessage['type']>(type: T): Extract<ServerMessage, { type: T }> | undefined {
+        return this.received.filter((m): m is Extract<ServerMessage, { type: T }> => m.type === type).pop();
+    }
+}
+
+const START = toPositionString(initialPosition());
+
+function send(rooms: RelayRooms, connection: RelayConnection, message: ClientMessage) {
+    rooms.receive(connection, JSON.stringify(message));
+}
+
+function openRoom() {
+    const rooms = new RelayRooms();
+    const white = new FakeConnection();
+    const black = new FakeConnection();
+    send(rooms, white, { type: 'create', start: START, color: 'white' });
+    const room = white.last('joined')!.room;
+    send(rooms, black, { type: 'join', room: room.toLowerCase() });
+    return { rooms, white, black, room };
+}
+
+describe('relay rooms', () => {
+    it('seat the host and the joining player on opposite sides', () => {
+        const { white, black, room } = openRoom();
+        expect(room).toMatch(/^[A-Z2-9]{5}$/);
+        expect(black.last('joined')).toMatchObject({ room, color: 'black' });
+        expect(black.last('sync')).toEqual({ type: 'sync', start: START, moves: [] });
+        expect(white.last('presence')).toEqual({ type: 'presence', opponentConnected: true });
+    });
+
+    it('relay legal moves to the opponent', () => {
+        const { rooms, white, black } = openRoom();
+        send(rooms, white, { type: 'move', ply: 0, move: 'e22e24' });
+        expect(black.last('move')).toEqual({ type: 'move', ply: 0, move: 'e22e24' });
+        send(rooms, black, { type: 'move', ply: 1, move: 'b18b26' });
+        expect(white.last('move')).toEqual({ type: 'move', ply: 1, move: 'b18b26' });
+    });
+
+    it('reject illegal, out of turn and stale moves with a resync', () => {
+        const { rooms, white, black } = openRoom();
+        for (const [connection, message] of [
+            [white, { type: 'move', ply: 0, move: 'e22e26' }],
+            [black, { type: 'move', ply: 0, move: 'e27e25' }],
+            [white, { type: 'move', ply: 3, move: 'e22e24' }]
+        ] as const) {
+            connection.received = [];
+            send(rooms, connection, message);
+            expect(connection.received.map(m => m.type)).toEqual(['error', 'sync']);
+        }
+        expect(black.last('move')).toBeUndefined();
+    });
+
+    it('give a dropped seat back to its token and resync the game', () => {
+        const { rooms, white, black, room } = openRoom();
+        const token = black.last('joined')!.token;
+        send(rooms, white, { type: 'move', ply: 0, move: 'e22e24' });
+        rooms.disconnect(black);
+        expect(white.last('presence')).toEqual({ type: 'presence', opponentConnected: false });
+
+        const stranger = new FakeConnection();
+        send(rooms, stranger, { type: 'join', room });
+        expect(stranger.last('error')?.message).toMatch(/full/);
+
+        const reconnected = new FakeConnection();
+        send(rooms, reconnected, { type: 'join', room, token });
+        expect(reconnected.last('joined')).toMatchObject({ color: 'black', token });
+        const sync = reconnected.last('sync')!;
+        expect(replayGame(sync.start, sync.moves).toPositionString()).toBe(
+            replayGame(START, ['e22e24']).toPositionString()
+        );
+        expect(white.last('presence')).toEqual({ type: 'presence', opponentConnected: true });
+    });
+
+    it('let spectators follow the game without playing', () => {
+        const { rooms, white, black, room } = openRoom();
+        send(rooms, white, { type: 'move', ply: 0, move: 'e22e24' });
+        const spectator = new FakeConnection();
+        send(rooms, spectator, { type: 'watch', room });
+        expect(spectator.last('watching')).toEqual({ type: 'watching', room });
+        expect(spectator.last('sync')?.moves).toEqual(['e22e24']);
+        expect(white.last('spectators')).toEqual({ type: 'spectators', count: 1 });
+        expect(black.last('spectators')).toEqual({ type: 'spectators', count: 1 });
+
+        send(rooms, black, { type: 'move', ply: 1, move: 'b18b26' });
+        expect(spectator.last('move')).toEqual({ type: 'move', ply: 1, move: 'b18b26' });
+        send(rooms, spectator, { type: 'move', ply: 2, move: 'e24e25' });
+        expect(spectator.last('error')?.message).toMatch(/Spectators/);
+        expect(black.last('move')?.ply).toBe(0);
+
+        rooms.disconnect(spectator);
+        expect(white.last('spectators')).toEqual({ type: 'spectators', count: 0 });
+    });
+
+    it('answer malformed messages and unknown rooms with an error', () => {
+        const rooms = new RelayRooms();
+        const connection = new FakeConnection();
+        rooms.receive(connection, '{"type":"move","ply":-1,"move":"e22e24"}');
+        send(rooms, connection, { type: 'join', room: 'NOPE1' });
+        send(rooms, connection, { type: 'sync' });
+        expect(connection.received.map(m => m.type)).toEqual(['error', 'error', 'error']);
+        expect(parseClientMessage('not json')).toBeNull();
+        expect(rooms.roomCount()).toBe(0);
+    });
+});
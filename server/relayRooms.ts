@@ -0,0 +1,193 @@
+import { randomBytes, randomInt } from 'node:crypto';
+import type { Piece } from '../types';
+import { Game } from '../lib/game';
+import { moveToCoordinates, parseCoordinateMove } from '../lib/notation';
+import { parseClientMessage, syncMessage } from '../lib/relayProtocol';
+import type { ClientMessage, ServerMessage } from '../lib/relayProtocol';
+
+// One connection to the relay, whatever transport carries it.
+export interface RelayConnection {
+    send(message: ServerMessage): void;
+}
+
+interface Seat {
+    token: string;
+    connection: RelayConnection | null;
+}
+
+interface Room {
+    code: string;
+    game: Game;
+    seats: Record<Piece['color'], Seat | null>;
+    spectators: Set<RelayConnection>;
+    idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Room codes avoid letters and digits that are easily confused when read out.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 5;
+
+// A room nobody is connected to is dropped after this long.
+export const ROOM_IDLE_MS = 10 * 60 * 1000;
+
+const opposite = (color: Piece['color']): Piece['color'] => color === 'white' ? 'black' : 'white';
+
+/**
+ * The relay's rooms and the games played in them. Every move is checked
+ * against the room's game before it is passed on, so a client can never push
+ * an illegal move or a move out of turn to its opponent or the spectators.
+ */
+export class RelayRooms {
+    private rooms = new Map<string, Room>();
+    private seated = new Map<RelayConnection, { room: Room; color: Piece['color'] }>();
+    private watching = new Map<RelayConnection, Room>();
+
+    roomCount(): number {
+        return this.rooms.size;
+    }
+
+    receive(connection: RelayConnection, text: string): void {
+        const message = parseClientMessage(text);
+        if (!message) {
+            connection.send({ type: 'error', message: 'Malformed message' });
+            return;
+        }
+        try {
+            this.handle(connection, message);
+        } catch (error) {
+            connection.send({ type: 'error', message: (error as Error).message });
+        }
+    }
+
+    disconnect(connection: RelayConnection): void {
+        const watched = this.watching.get(connection);
+        if (watched) {
+            this.watching.delete(connection);
+            watched.spectators.delete(connection);
+            this.announceSpectators(watched);
+            this.startIdleTimerIfEmpty(watched);
+        }
+        const place = this.seated.get(connection);
+        if (!place) return;
+        this.seated.delete(connection);
+        const { room, color } = place;
+        const seat = room.seats[color] as Seat;
+        seat.connection = null;
+        room.seats[opposite(color)]?.connection?.send({ type: 'presence', opponentConnected: false });
+        this.startIdleTimerIfEmpty(room);
+    }
+
+    private handle(connection: RelayConnection, message: ClientMessage): void {
+        switch (message.type) {
+            case 'create': {
+                const room: Room = {
+                    code: this.newCode(),
+                    game: Game.fromPositionString(message.start),
+                    seats: { white: null, black: null },
+                    spectators: new Set(),
+                    idleTimer: null
+                };
+                this.rooms.set(room.code, room);
+                this.seat(connection, room, message.color, null);
+                return;
+            }
+            case 'join': {
+                const room = this.findRoom(message.room);
+                const reclaimed = (['white', 'black'] as const).find(color => message.token && room.seats[color]?.token === message.token);
+                const free = (['white', 'black'] as const).find(color => !room.seats[color]);
+                const color = reclaimed ?? free;
+                if (!color) throw new Error(`Room ${room.code} is full`);
+                this.seat(connection, room, color, room.seats[color]);
+                return;
+            }
+            case 'watch': {
+                const room = this.findRoom(message.room);
+                this.disconnect(connection);
+                room.spectators.add(connection);
+                this.watching.set(connection, room);
+                this.clearIdleTimer(room);
+                connection.send({ type: 'watching', room: room.code });
+                connection.send(syncMessage(room.game));
+                this.announceSpectators(room);
+                return;
+            }
+            case 'move': {
+                if (this.watching.has(connection)) throw new Error('Spectators cannot move');
+                const { room, color } = this.placeOf(connection);
+                const game = room.game;
+                try {
+                    if (game.turn() !== color) throw new Error('It is not your turn');
+                    if (message.ply !== game.ply()) throw new Error(`The move was played from ply ${message.ply}, the game is at ply ${game.ply()}`);
+                    const played = game.applyMove(parseCoordinateMove(message.move, game.position()));
+                    const relayed: ServerMessage = { type: 'move', ply: message.ply, move: moveToCoordinates(played) };
+                    room.seats[opposite(color)]?.connection?.send(relayed);
+                    room.spectators.forEach(spectator => spectator.send(relayed));
+                } catch (error) {
+                    connection.send({ type: 'error', message: (error as Error).message });
+                    connection.send(syncMessage(game));
+                }
+                return;
+            }
+            case 'sync':
+                connection.send(syncMessage(this.watching.get(connection)?.game ?? this.placeOf(connection).room.game));
+                return;
+        }
+    }
+
+    private seat(connection: RelayConnection, room: Room, color: Piece['color'], existing: Seat | null): void {
+        this.disconnect(connection);
+        // A reclaimed seat drops whichever connection held it before.
+        if (existing?.connection) this.seated.delete(existing.connection);
+        const seat: Seat = existing ?? { token: randomBytes(16).toString('hex'), connection: null };
+        seat.connection = connection;
+        room.seats[color] = seat;
+        this.seated.set(connection, { room, color });
+        this.clearIdleTimer(room);
+
+        const opponent = room.seats[opposite(color)];
+        connection.send({ type: 'joined', room: room.code, color, token: seat.token });
+        connection.send(syncMessage(room.game));
+        connection.send({ type: 'presence', opponentConnected: !!opponent?.connection });
+        opponent?.connection?.send({ type: 'presence', opponentConnected: true });
+        connection.send({ type: 'spectators', count: room.spectators.size });
+    }
+
+    private findRoom(code: string): Room {
+        const room = this.rooms.get(code.trim().toUpperCase());
+        if (!room) throw new Error(`There is no room ${code}`);
+        return room;
+    }
+
+    private announceSpectators(room: Room): void {
+        const message: ServerMessage = { type: 'spectators', count: room.spectators.size };
+        room.seats.white?.connection?.send(message);
+        room.seats.black?.connection?.send(message);
+        room.spectators.forEach(spectator => spectator.send(message));
+    }
+
+    private startIdleTimerIfEmpty(room: Room): void {
+        if (room.seats.white?.connection || room.seats.black?.connection || room.spectators.size > 0 || room.idleTimer) return;
+        room.idleTimer = setTimeout(() => this.rooms.delete(room.code), ROOM_IDLE_MS);
+        room.idleTimer.unref?.();
+    }
+
+    private clearIdleTimer(room: Room): void {
+        if (!room.idleTimer) return;
+        clearTimeout(room.idleTimer);
+        room.idleTimer = null;
+    }
+
+    private placeOf(connection: RelayConnection): { room: Room; color: Piece['color'] } {
+        const place = this.seated.get(connection);
+        if (!place) throw new Error('Create or join a room first');
+        return place;
+    }
+
+    private newCode(): string {
+        let code: string;
+        do {
+            code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+        } while (this.rooms.has(code));
+        return code;
+    }
+}
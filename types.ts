@@ -1,6 +1,12 @@
 
+// The six orthodox pieces, which every 3D model set provides.
+export type OrthodoxPieceType = 'P' | 'N' | 'B' | 'R' | 'Q' | 'K';
+// Unicorn and dragon; their movement is defined in lib/pieces.ts.
+export type FairyPieceType = 'U' | 'D';
+export type PieceType = OrthodoxPieceType | FairyPieceType;
+
 export interface Piece {
-  type: 'P' | 'N' | 'B' | 'R' | 'Q' | 'K';
+  type: PieceType;
   color: 'white' | 'black';
   x: number;
   y: number;
@@ -10,25 +16,97 @@ export interface Piece {
 
 export type BoardState = (Piece | null)[][][];
 
+export interface Square {
+  x: number;
+  y: number;
+  z: number;
+}
+
 export interface Move {
+  from: Square;
   x: number;
   y: number;
   z: number;
   capture: boolean;
   castle?: 'king' | 'queen';
+  promotion?: Piece['type'];
+  // The captured pawn is not on the target cell but next to the capturing pawn.
+  enPassant?: boolean;
 }
 
-export const SIZE = 8;
-export const CELL_SIZE = 7;
-export const BOARD_BOUNDS = SIZE * CELL_SIZE;
-export const CENTER_OFFSET = BOARD_BOUNDS / 2 - (CELL_SIZE / 2);
+// One way a piece moves. A leaper jumps straight to `vectors` offsets (range 1);
+// a rider slides along them any number of cells, or up to `range`, until it
+// is blocked. `only` limits the rule to quiet moves or to captures.
+export interface MovementRule {
+  vectors: number[][];
+  range?: number;
+  only?: 'move' | 'capture';
+}
 
-export const PIECE_VALUES: { [key in Piece['type']]: number } = { 'P': 1, 'N': 3, 'B': 3, 'R': 5, 'Q': 9, 'K': 0 };
+export interface PieceDefinition {
+  name: string;
+  value: number;
+  symbols: { white: string; black: string };
+  movement: MovementRule[];
+  // Model shown for pieces that loaded model sets do not include.
+  modelStandIn?: OrthodoxPieceType;
+}
 
-export const PIECE_SYMBOLS: { [color: string]: { [type: string]: string } } = {
-    white: { 'K': '♔', 'Q': '♕', 'R': '♖', 'B': '♗', 'N': '♘', 'P': '♙' },
-    black: { 'K': '♚', 'Q': '♛', 'R': '♜', 'B': '♝', 'N': '♞', 'P': '♟' }
-};
+// Board size, starting setup and the pawn and castling rules of a game. The
+// available variants are defined in lib/variants.ts.
+export interface Variant {
+  name: string;
+  size: number;
+  // Every layer from z=0 up, each listing its rows from y=0 and each row its
+  // cells from x=0: upper case for white, lower case for black, '.' if empty.
+  setup: string[][];
+  // Pawns advance along this axis, white towards higher coordinates.
+  pawnAxis: 'y' | 'z';
+  // Pawn-axis coordinate from which pawns may double step, null if they never do.
+  pawnStart: { white: number; black: number } | null;
+  // Pawn-axis coordinate on which pawns promote.
+  promotion: { white: number; black: number };
+  // The cell row (along x) each king castles on, null if there is no castling.
+  castling: { white: { y: number; z: number }; black: { y: number; z: number } } | null;
+}
+
+export interface Position {
+  variant: Variant;
+  board: BoardState;
+  turn: Piece['color'];
+  // The cell a pawn skipped with a double step on the previous ply, if any.
+  enPassant: Square | null;
+  halfmoveClock: number;
+  fullmoveNumber: number;
+}
+
+export type DrawReason = 'repetition' | 'fifty-move' | 'insufficient-material' | 'agreement' | 'timeout-vs-insufficient-material';
+
+// While a game is in progress, `drawOfferedBy` is set if a draw offer awaits
+// an answer.
+export type GameStatus =
+  | { state: 'active'; drawOfferedBy?: Piece['color'] }
+  | { state: 'check'; inCheck: Piece['color']; drawOfferedBy?: Piece['color'] }
+  | { state: 'checkmate'; winner: Piece['color'] }
+  | { state: 'stalemate' }
+  | { state: 'draw'; reason: DrawReason }
+  | { state: 'resigned'; winner: Piece['color'] }
+  | { state: 'timeout'; winner: Piece['color'] };
+
+// Fischer adds the increment after every move, Bronstein gives back the time
+// spent on a move up to the delay, sudden death adds nothing.
+export type ClockMode = 'sudden-death' | 'fischer' | 'bronstein';
+
+export interface TimeControl {
+  mode: ClockMode;
+  initialMs: number;
+  // The Fischer increment or Bronstein delay; unused in sudden death.
+  incrementMs: number;
+}
+
+// Size of the standard board. Other variants set their own (see variants.ts);
+// only the fast board and the engine are fixed to this one.
+export const SIZE = 8;
+export const CELL_SIZE = 7;
 
-export const BOARD_SIZE_2D = 8;
 export const CELL_SIZE_2D = 30;
\ No newline at end of file